@@ -1,4 +1,6 @@
 import type { NextConfig } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { loadGalleryManifest } from "./src/lib/gallery/manifest";
 
 const nextConfig: NextConfig = {
     images: {
@@ -21,4 +23,15 @@ const nextConfig: NextConfig = {
     },
 };
 
-export default nextConfig;
+export default function config(phase: string): NextConfig {
+    // Fail the build on missing gallery files or bad paths in gallery.json
+    if (phase === PHASE_PRODUCTION_BUILD) {
+        const { images, problems } = loadGalleryManifest();
+        if (problems.length > 0) {
+            throw new Error(`Gallery manifest is invalid:\n  ${problems.join('\n  ')}`);
+        }
+        console.log(`[gallery] ${images.length} images validated`);
+    }
+
+    return nextConfig;
+}
@@ -0,0 +1,30 @@
+// Copies the MediaPipe Hands and Selfie Segmentation runtimes (wasm, tflite,
+// binarypb, data and loader scripts) into public/ so the app can run without
+// reaching a CDN.
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const PACKAGES = ['hands', 'selfie_segmentation'];
+
+const ASSET_PATTERN = /\.(wasm|tflite|binarypb|data|js)$/;
+
+for (const name of PACKAGES) {
+    const source = join(root, 'node_modules', '@mediapipe', name);
+    const target = join(root, 'public', 'mediapipe', name);
+
+    if (!existsSync(source)) {
+        console.warn(`[mediapipe] @mediapipe/${name} is not installed, skipping asset copy`);
+        continue;
+    }
+
+    mkdirSync(target, { recursive: true });
+
+    const files = readdirSync(source).filter(file => ASSET_PATTERN.test(file));
+    for (const file of files) {
+        copyFileSync(join(source, file), join(target, file));
+    }
+
+    console.log(`[mediapipe] Copied ${files.length} assets to public/mediapipe/${name}`);
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { loadGalleryManifest } from '@/lib/gallery/manifest';
+
+export async function GET() {
+    const { albums, images, problems } = loadGalleryManifest();
+
+    if (problems.length > 0) {
+        console.warn(`[gallery] ${problems.length} manifest problem(s):\n  ${problems.join('\n  ')}`);
+    }
+
+    return NextResponse.json({ albums, images });
+}
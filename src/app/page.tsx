@@ -4,143 +4,221 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useHandTracking } from '@/hooks/useHandTracking';
 import ImageGallery from '@/components/ImageGallery';
-import ImageViewer from '@/components/ImageViewer';
+import ImageStage from '@/components/ImageStage';
 import HandCursors from '@/components/HandCursors';
+import DebugOverlay from '@/components/DebugOverlay';
 import Timer from '@/components/Timer';
 import LoadingOverlay from '@/components/LoadingOverlay';
-
-interface GalleryImage {
-    id: string;
-    src: string;
-    title: string;
+import { GalleryProvider, useGallery } from '@/context/GalleryContext';
+import SessionControls from '@/components/SessionControls';
+import CameraPanel from '@/components/CameraPanel';
+import BindingsPanel from '@/components/BindingsPanel';
+import TrainerPanel from '@/components/TrainerPanel';
+import TrackingStatus from '@/components/TrackingStatus';
+import { useSessionRecorder } from '@/hooks/useSessionRecorder';
+import { useCamera } from '@/hooks/useCamera';
+import { useBackgroundEffect } from '@/hooks/useBackgroundEffect';
+import { useHandRoles } from '@/hooks/useHandRoles';
+import { useStageRecorder } from '@/hooks/useStageRecorder';
+import { useTalkTimer } from '@/hooks/useTalkTimer';
+import { usePresentation } from '@/hooks/usePresentation';
+import { useKeyboardShortcut } from '@/hooks/useKeyboardShortcut';
+import { useGestureEngine } from '@/hooks/useGestureEngine';
+import { useGestureAction, useGestureBindings } from '@/hooks/useGestureBindings';
+import { usePoseTrainer } from '@/hooks/usePoseTrainer';
+import { resolveTrackingProvider } from '@/lib/tracking/resolveProvider';
+import { createPointerProvider } from '@/lib/tracking/pointerProvider';
+import { createReplayProvider, type ReplayMode, type ReplayProvider } from '@/lib/tracking/replayProvider';
+import { sessionToFrames, type RecordedSession } from '@/lib/tracking/session';
+import type { HandTrackingProvider } from '@/lib/tracking/types';
+import { DEFAULT_SMOOTHING, smoothingFromSearch } from '@/lib/tracking/oneEuroFilter';
+import { gestureHint, PINCH_ACTIONS } from '@/lib/tracking/gestureBindings';
+import { performanceModeFromSearch } from '@/lib/tracking/performanceGovernor';
+import { DEFAULT_TALK_TIMER_CONFIG, talkTimerConfigFromSearch } from '@/lib/talkTimer';
+
+// Keeping the left palm open this long after pausing stops the recording
+const RECORDING_STOP_HOLD_MS = 1500;
+
+// The gallery lives here rather than in the root layout, so the presenter view
+// (/presenter), which only listens on the BroadcastChannel, never loads it
+export default function Home() {
+    return (
+        <GalleryProvider>
+            <Stage />
+        </GalleryProvider>
+    );
 }
 
-export default function Home() {
+function Stage() {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isLoading, setIsLoading] = useState(true);
-    const [cameraReady, setCameraReady] = useState(false);
-    const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null);
     const [isDragging, setIsDragging] = useState(false);
-    const [initialDragPos, setInitialDragPos] = useState<{ x: number; y: number } | undefined>();
+    const { stageImages, clearStage, comparison, setCompareLayout } = useGallery();
+
+    // Tracking backend comes from the URL (?tracking=synthetic|replay), MediaPipe by default
+    const [trackingProvider, setTrackingProvider] = useState<HandTrackingProvider | null>(() =>
+        typeof window === 'undefined' ? null : resolveTrackingProvider(window.location.search)
+    );
+    const [showCameraPanel, setShowCameraPanel] = useState(false);
+    const [showBindingsPanel, setShowBindingsPanel] = useState(false);
+    const [showTrainer, setShowTrainer] = useState(false);
+    const [showSessionControls, setShowSessionControls] = useState(false);
+    const [smoothingEnabled, setSmoothingEnabled] = useState(true);
+    // One Euro settings from the URL (?minCutoff=1.5&beta=8), tuned live in the session panel
+    const [smoothing, setSmoothing] = useState(() =>
+        typeof window === 'undefined' ? DEFAULT_SMOOTHING : smoothingFromSearch(window.location.search));
+    const [showRawCursors, setShowRawCursors] = useState(false);
+    const [showDebug, setShowDebug] = useState(false);
+
+    // Device and quality are remembered; errors open the camera panel
+    const camera = useCamera(videoRef);
+    // Mirrored camera with an optional dimmed, blurred or replaced background
+    const background = useBackgroundEffect(videoRef, canvasRef, camera.status === 'ready');
+    // Which hand drags and which zooms; set in the camera panel
+    const handRoles = useHandRoles();
+
+    const sessionRecorder = useSessionRecorder(trackingProvider?.name ?? 'mediapipe');
+    const handTracking = useHandTracking(videoRef, {
+        provider: trackingProvider,
+        smoothing: smoothingEnabled ? smoothing : null,
+        onFrame: sessionRecorder.record,
+        // The governor picks the tier unless the URL pins one (?performance=low)
+        performance: typeof window === 'undefined' ? 'auto' : performanceModeFromSearch(window.location.search),
+        handRoles: handRoles.settings,
+    });
+
+    const gestures = useGestureEngine(handTracking);
+    // Which gesture does what; edited in the bindings panel
+    const gestureBindings = useGestureBindings(gestures, handTracking);
+    const dragHand = gestureBindings.actions.dragHand();
+    // Poses taught in the trainer panel, recognized by k-NN and bindable like gestures
+    const poseTrainer = usePoseTrainer(gestures, handTracking, gestureBindings.actions);
+    const stageRecorder = useStageRecorder();
+    // Talk length and warnings come from the URL (?talk=30&warn=5,1&countdown)
+    const talkTimer = useTalkTimer(
+        typeof window === 'undefined' ? DEFAULT_TALK_TIMER_CONFIG : talkTimerConfigFromSearch(window.location.search)
+    );
+    // Presentation script from the URL (?script=/scripts/demo.json)
+    const presentation = usePresentation(
+        typeof window === 'undefined' ? null : new URLSearchParams(window.location.search).get('script'),
+        talkTimer
+    );
+    const recordingStopHold = useRef<ReturnType<typeof setTimeout>>(undefined);
+    const openPalms = useRef({ Left: false, Right: false });
+    openPalms.current = { Left: !!handTracking.leftHand?.isOpenPalm, Right: !!handTracking.rightHand?.isOpenPalm };
 
-    const handTracking = useHandTracking(videoRef);
+    const replay = trackingProvider?.name === 'replay' ? (trackingProvider as ReplayProvider) : null;
 
-    // Initialize camera
-    useEffect(() => {
-        let stream: MediaStream | null = null;
-
-        const initCamera = async () => {
-            try {
-                stream = await navigator.mediaDevices.getUserMedia({
-                    video: {
-                        width: { ideal: 1280 },
-                        height: { ideal: 720 },
-                        facingMode: 'user',
-                        frameRate: { ideal: 30 },
-                    },
-                });
-
-                if (videoRef.current) {
-                    videoRef.current.srcObject = stream;
-                    await videoRef.current.play();
-                    setCameraReady(true);
-
-                    // 3-second loading animation
-                    setTimeout(() => {
-                        setIsLoading(false);
-                    }, 3000);
-                }
-            } catch (err) {
-                console.error('Camera error:', err);
-                setIsLoading(false);
-            }
-        };
-
-        initCamera();
-
-        return () => {
-            if (stream) {
-                stream.getTracks().forEach(track => track.stop());
-            }
-        };
+    const handleLoadSession = useCallback((session: RecordedSession, mode: ReplayMode) => {
+        setTrackingProvider(createReplayProvider({
+            load: async () => sessionToFrames(session),
+            mode,
+        }));
     }, []);
 
-    // Draw mirrored video to canvas for display
-    useEffect(() => {
-        if (!cameraReady || !videoRef.current || !canvasRef.current) return;
-
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        let animationId: number;
-
-        const drawFrame = () => {
-            if (video.readyState >= 2) {
-                canvas.width = window.innerWidth;
-                canvas.height = window.innerHeight;
-
-                // Calculate cover dimensions
-                const videoAspect = video.videoWidth / video.videoHeight;
-                const canvasAspect = canvas.width / canvas.height;
-
-                let drawWidth, drawHeight, offsetX, offsetY;
-
-                if (canvasAspect > videoAspect) {
-                    drawWidth = canvas.width;
-                    drawHeight = canvas.width / videoAspect;
-                    offsetX = 0;
-                    offsetY = (canvas.height - drawHeight) / 2;
-                } else {
-                    drawWidth = canvas.height * videoAspect;
-                    drawHeight = canvas.height;
-                    offsetX = (canvas.width - drawWidth) / 2;
-                    offsetY = 0;
-                }
-
-                // Mirror the video
-                ctx.save();
-                ctx.scale(-1, 1);
-                ctx.drawImage(video, -offsetX - drawWidth, offsetY, drawWidth, drawHeight);
-                ctx.restore();
-            }
-
-            animationId = requestAnimationFrame(drawFrame);
-        };
-
-        drawFrame();
-
-        return () => {
-            cancelAnimationFrame(animationId);
-        };
-    }, [cameraReady]);
-
-    const handleImageSelect = useCallback((image: GalleryImage | null, dragPosition?: { x: number; y: number }) => {
-        setSelectedImage(image);
-        setInitialDragPos(dragPosition);
+    const handleExitReplay = useCallback(() => {
+        setTrackingProvider(resolveTrackingProvider(''));
     }, []);
 
-    const handleCloseImage = useCallback(() => {
-        setSelectedImage(null);
-        setInitialDragPos(undefined);
+    // A fresh provider instance makes useHandTracking initialize again
+    const handleRetryTracking = useCallback(() => {
+        setTrackingProvider(resolveTrackingProvider(window.location.search));
     }, []);
 
-    const lastOpenPalmTime = useRef(0);
-
-    // Handle "Open Palms" gesture to clear
+    useKeyboardShortcut('`', () => setShowSessionControls(prev => !prev));
+    useKeyboardShortcut('v', () => setShowCameraPanel(prev => !prev));
+    useKeyboardShortcut('k', () => setShowBindingsPanel(prev => !prev));
+    useKeyboardShortcut('n', () => setShowTrainer(prev => !prev));
+    useKeyboardShortcut('b', background.cycleEffect);
+    // Compare filtered and raw tracking: f toggles the filter, g shows raw cursors
+    useKeyboardShortcut('f', () => setSmoothingEnabled(prev => !prev));
+    useKeyboardShortcut('g', () => setShowRawCursors(prev => !prev));
+    // Landmarks and gesture diagnostics for tuning thresholds
+    useKeyboardShortcut('d', () => setShowDebug(prev => !prev));
+    useKeyboardShortcut(' ', () => {
+        if (replay?.paused) replay.resume(); else replay?.pause();
+    }, !!replay);
+    useKeyboardShortcut('.', () => replay?.step(), !!replay);
+    // Record the composited page to WebM: r starts/stops, p pauses/resumes
+    useKeyboardShortcut('r', stageRecorder.toggle);
+    useKeyboardShortcut('p', stageRecorder.togglePause, stageRecorder.status !== 'idle');
+    // Talk timer: t pauses/resumes, T resets, m switches between stopwatch and countdown
+    useKeyboardShortcut('t', talkTimer.toggle);
+    useKeyboardShortcut('T', talkTimer.reset);
+    useKeyboardShortcut('m', talkTimer.toggleMode);
+    // Speaker notes, next item and talk time in a separate window
+    useKeyboardShortcut('o', presentation.openPresenterView);
+    // x ends the presentation script; next/prev then follow the album again
+    useKeyboardShortcut('x', presentation.endScript, presentation.script !== null);
+
+    // 3-second loading animation once the camera runs; without one, start right away
     useEffect(() => {
-        if (!handTracking.leftHand || !handTracking.rightHand) return;
+        if (camera.status === 'error') {
+            setIsLoading(false);
+            return;
+        }
+        if (camera.status !== 'ready') return;
 
-        const now = Date.now();
-        if (now - lastOpenPalmTime.current < 2000) return; // 2 second cooldown
+        const timeout = setTimeout(() => setIsLoading(false), 3000);
+        return () => clearTimeout(timeout);
+    }, [camera.status]);
 
-        if (handTracking.leftHand.isOpenPalm && handTracking.rightHand.isOpenPalm) {
-            handleCloseImage();
-            lastOpenPalmTime.current = now;
+    // Without a camera, hands come from the mouse, touch and keyboard instead, until
+    // the camera works again
+    const usingPointerFallback = useRef(false);
+    useEffect(() => {
+        if (camera.status === 'error' && trackingProvider?.requiresVideo) {
+            usingPointerFallback.current = true;
+            setTrackingProvider(createPointerProvider());
+            setShowCameraPanel(true);
+        } else if (camera.status === 'ready' && usingPointerFallback.current) {
+            usingPointerFallback.current = false;
+            setTrackingProvider(resolveTrackingProvider(window.location.search));
         }
-    }, [handTracking.leftHand, handTracking.rightHand, handleCloseImage]);
+    }, [camera.status, trackingProvider]);
+
+    // Two open palms clear the whole stage by default (cooldown is handled by the gesture engine)
+    useGestureAction(gestureBindings.actions, 'clear', clearStage);
+    const clearHint = gestureHint(gestureBindings.bindings, 'clear');
+
+    // Compare the two front-most images: off -> side by side -> wipe -> off
+    const cycleComparison = useCallback(() => {
+        if (!comparison) setCompareLayout('sideBySide');
+        else setCompareLayout(comparison.layout === 'sideBySide' ? 'wipe' : null);
+    }, [comparison, setCompareLayout]);
+
+    useGestureAction(gestureBindings.actions, 'compare', () => {
+        if (stageImages.length >= 2) cycleComparison();
+    });
+
+    // A gesture cannot start screen capture, so while idle it asks the presenter
+    // to press R or click the timer. Once recording, it pauses/resumes, and
+    // keeping the palm that triggered it open stops recording
+    useGestureAction(gestureBindings.actions, 'toggleRecording', ({ hand }) => {
+        if (stageRecorder.status === 'idle') {
+            stageRecorder.promptStart();
+            return;
+        }
+        stageRecorder.togglePause();
+        clearTimeout(recordingStopHold.current);
+        recordingStopHold.current = setTimeout(() => {
+            if (hand ? openPalms.current[hand] : openPalms.current.Left && openPalms.current.Right) stageRecorder.stop();
+        }, RECORDING_STOP_HOLD_MS);
+    });
+
+    useEffect(() => () => clearTimeout(recordingStopHold.current), []);
+
+    // Both thumbs up pauses/resumes the talk timer, both thumbs down resets it
+    useGestureAction(gestureBindings.actions, 'toggleTimer', talkTimer.toggle);
+    useGestureAction(gestureBindings.actions, 'resetTimer', talkTimer.reset);
+
+    // The talk timer starts once the app is ready
+    const { start: startTalkTimer } = talkTimer;
+    useEffect(() => {
+        if (!isLoading) startTalkTimer();
+    }, [isLoading, startTalkTimer]);
+    useKeyboardShortcut('c', cycleComparison, stageImages.length >= 2);
 
     return (
         <div className="relative w-screen h-screen overflow-hidden bg-black">
@@ -163,26 +241,31 @@ export default function Home() {
             <div className="absolute inset-0 bg-gradient-to-r from-black/20 via-transparent to-black/40 pointer-events-none" />
 
             {/* Timer */}
-            <Timer isVisible={!isLoading} />
+            <Timer
+                isVisible={!isLoading}
+                talk={talkTimer}
+                recording={stageRecorder}
+                onStartRecording={stageRecorder.start}
+                scriptError={presentation.error}
+            />
 
             {/* Hand tracking status indicator */}
-            <motion.div
-                className="fixed top-6 right-[26%] z-30"
-                initial={{ opacity: 0 }}
-                animate={{ opacity: !isLoading ? 1 : 0 }}
-                transition={{ delay: 0.5 }}
-            >
-                <div className="bg-black/40 backdrop-blur-md rounded-xl px-3 py-1.5 border border-white/10 flex items-center gap-2">
-                    <div className={`w-2 h-2 rounded-full ${handTracking.isReady ? 'bg-green-400' : 'bg-yellow-400'} animate-pulse`} />
-                    <span className="text-white/70 text-xs">
-                        {handTracking.isReady ? 'Hands Ready' : 'Loading...'}
-                    </span>
-                </div>
-            </motion.div>
-
-            {/* Main content area - shows selected image or instructions */}
+            <TrackingStatus
+                isVisible={!isLoading}
+                isReady={handTracking.isReady}
+                error={handTracking.error}
+                isSmoothing={smoothingEnabled}
+                providerName={trackingProvider?.name ?? 'mediapipe'}
+                tier={handTracking.tier}
+                notice={camera.error && trackingProvider?.name === 'pointer'
+                    ? 'No camera: drag to move images, Shift+drag or scroll to zoom, arrows to step, Esc to clear.'
+                    : null}
+                onRetry={handleRetryTracking}
+            />
+
+            {/* Main content area - shows the stage images or instructions */}
             <div className="absolute inset-0 right-[25%]">
-                {!selectedImage && !isLoading && (
+                {stageImages.length === 0 && !isLoading && (
                     <motion.div
                         className="absolute bottom-12 left-1/2 -translate-x-1/2"
                         initial={{ opacity: 0, y: 20 }}
@@ -192,40 +275,39 @@ export default function Home() {
                         <div className="bg-black/50 backdrop-blur-md rounded-2xl px-6 py-4 border border-white/10">
                             <div className="flex flex-col items-center gap-2">
                                 <p className="text-white/80 text-sm font-medium">Hand Gesture Controls</p>
+                                {/* Follows the gesture bindings; unbound pinches and gestures are left out */}
                                 <div className="flex gap-6 text-xs text-white/60">
-                                    <span className="flex items-center gap-1.5">
-                                        <span className="w-2 h-2 rounded-full bg-green-400" />
-                                        Right: Select & Drag
-                                    </span>
-                                    <span className="flex items-center gap-1.5">
-                                        <span className="w-2 h-2 rounded-full bg-blue-400" />
-                                        Left: Zoom & Pan
-                                    </span>
-                                    <span className="flex items-center gap-1.5">
-                                        <span className="text-base">✋🤚</span>
-                                        Clear
-                                    </span>
+                                    {(['Right', 'Left'] as const).map(hand => {
+                                        const action = gestureBindings.actions.pinchAction(hand);
+                                        if (action === 'none') return null;
+                                        return (
+                                            <span key={hand} className="flex items-center gap-1.5">
+                                                <span className={`w-2 h-2 rounded-full ${hand === 'Right' ? 'bg-green-400' : 'bg-blue-400'}`} />
+                                                {hand}: {PINCH_ACTIONS[action].short}
+                                            </span>
+                                        );
+                                    })}
+                                    {clearHint && (
+                                        <span className="flex items-center gap-1.5">
+                                            <span className="text-base">{clearHint}</span>
+                                            Clear
+                                        </span>
+                                    )}
                                 </div>
                             </div>
                         </div>
                     </motion.div>
                 )}
 
-                {/* Image viewer */}
-                <ImageViewer
-                    image={selectedImage}
-                    leftHand={handTracking.leftHand}
-                    rightHand={handTracking.rightHand}
-                    onClose={handleCloseImage}
-                    initialPosition={initialDragPos}
-                />
+                {/* Images on the stage */}
+                <ImageStage gestures={gestures} actions={gestureBindings.actions} />
             </div>
 
             {/* Gallery sidebar */}
             <ImageGallery
-                rightHand={handTracking.rightHand}
-                onImageSelect={handleImageSelect}
-                selectedImage={selectedImage}
+                dragHand={dragHand === 'Left' ? handTracking.leftHand : dragHand === 'Right' ? handTracking.rightHand : null}
+                gestures={gestures}
+                actions={gestureBindings.actions}
                 isDragging={isDragging}
                 setIsDragging={setIsDragging}
             />
@@ -234,6 +316,42 @@ export default function Home() {
             <HandCursors
                 leftHand={handTracking.leftHand}
                 rightHand={handTracking.rightHand}
+                showRaw={showRawCursors}
+            />
+
+            {/* Camera device, quality, background and errors */}
+            <CameraPanel isVisible={showCameraPanel} camera={camera} background={background} handRoles={handRoles} />
+
+            {/* Gesture-to-action mapping */}
+            <BindingsPanel isVisible={showBindingsPanel} gestureBindings={gestureBindings} />
+            <TrainerPanel
+                isVisible={showTrainer}
+                trainer={poseTrainer}
+                gestureBindings={gestureBindings}
+                gestures={gestures}
+            />
+
+            {/* Skeleton and gesture diagnostics */}
+            <DebugOverlay
+                isVisible={showDebug}
+                leftHand={handTracking.leftHand}
+                rightHand={handTracking.rightHand}
+                fps={handTracking.fps}
+                gestures={gestures}
+            />
+
+            {/* Session recording and replay */}
+            <SessionControls
+                isVisible={showSessionControls && !isLoading}
+                isRecording={sessionRecorder.isRecording}
+                entryCount={sessionRecorder.entryCount}
+                onStartRecording={sessionRecorder.start}
+                onStopRecording={sessionRecorder.stop}
+                replay={replay}
+                onLoadSession={handleLoadSession}
+                onExitReplay={handleExitReplay}
+                smoothing={smoothingEnabled ? smoothing : null}
+                onSmoothingChange={setSmoothing}
             />
 
             {/* Loading overlay with 3-second animation */}
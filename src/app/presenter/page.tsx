@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import {
+    presenterChannel,
+    type PresenterCommand,
+    type PresenterItem,
+    type PresenterMessage,
+    type PresenterState,
+} from '@/lib/presentation/channel';
+import { talkTimerPhase, type TalkTimerPhase } from '@/lib/talkTimer';
+import { formatElapsed } from '@/lib/stopwatch';
+
+const PHASE_TEXT: Record<TalkTimerPhase, string> = {
+    normal: 'text-white',
+    warning: 'text-amber-300',
+    critical: 'text-red-400',
+    overtime: 'text-red-500 animate-pulse',
+};
+
+function ItemPreview({ item, className }: { item: PresenterItem; className: string }) {
+    if (item.mediaType === 'video') {
+        return <video src={`${item.src}#t=0.1`} className={className} muted playsInline preload="metadata" />;
+    }
+    return <img src={item.src} alt={item.title} className={className} />;
+}
+
+// Speaker view, opened from the stage window with `o`. Shows the notes, the next
+// item and the talk time, and can step or end the script.
+export default function PresenterPage() {
+    const [state, setState] = useState<PresenterState | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const channel = useRef<BroadcastChannel | null>(null);
+
+    useEffect(() => {
+        const opened = presenterChannel();
+        if (!opened) return;
+        channel.current = opened;
+
+        opened.onmessage = (event: MessageEvent<PresenterMessage>) => {
+            if (event.data.type === 'state') setState(event.data.state);
+        };
+        opened.postMessage({ type: 'hello' } satisfies PresenterMessage);
+
+        return () => {
+            opened.close();
+            channel.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, []);
+
+    const send = (command: PresenterCommand) => {
+        channel.current?.postMessage({ type: 'command', command } satisfies PresenterMessage);
+    };
+
+    if (!state) {
+        return (
+            <div className="w-screen h-screen bg-neutral-950 flex items-center justify-center">
+                <p className="text-white/50 text-sm">
+                    {typeof BroadcastChannel === 'undefined'
+                        ? 'This browser does not support BroadcastChannel'
+                        : 'Waiting for the gallery window...'}
+                </p>
+            </div>
+        );
+    }
+
+    const { talk, current, next } = state;
+    const elapsed = talk.elapsedMs + (talk.running ? now - talk.sentAt : 0);
+    const phase = talkTimerPhase(elapsed, talk.config);
+    const onItem = now - state.itemStartedAt;
+    const remaining = talk.config.durationMs - elapsed;
+
+    return (
+        <div className="w-screen h-screen bg-neutral-950 text-white flex flex-col p-6 gap-6">
+            <header className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-white/90 font-medium">{state.title ?? 'No script loaded'}</h1>
+                    {state.total > 0 && (
+                        <p className="text-white/50 text-xs mt-1">Item {state.index + 1} of {state.total}</p>
+                    )}
+                </div>
+                <div className="text-right">
+                    <p className={`font-mono text-4xl tracking-wider ${PHASE_TEXT[phase]}`}>
+                        {formatElapsed(elapsed)}
+                    </p>
+                    <p className="text-white/50 text-xs mt-1">
+                        {!talk.running && 'Paused · '}
+                        {remaining >= 0 ? `${formatElapsed(remaining)} left` : `${formatElapsed(-remaining)} over`}
+                    </p>
+                </div>
+            </header>
+
+            <main className="flex-1 grid grid-cols-[2fr_1fr] gap-6 min-h-0">
+                <section className="flex flex-col gap-4 min-h-0">
+                    {current ? (
+                        <>
+                            <div className="flex items-baseline justify-between">
+                                <h2 className="text-xl font-medium">{current.title}</h2>
+                                <span className={`font-mono text-sm ${current.durationMs && onItem > current.durationMs ? 'text-red-400' : 'text-white/60'}`}>
+                                    {formatElapsed(onItem)}
+                                    {current.durationMs > 0 && ` / ${formatElapsed(current.durationMs)}`}
+                                    {current.autoAdvance && ' · auto'}
+                                </span>
+                            </div>
+                            <div className="flex-1 overflow-auto rounded-xl bg-white/5 border border-white/10 p-5">
+                                <p className="text-2xl leading-relaxed whitespace-pre-wrap text-white/90">
+                                    {current.notes || <span className="text-white/30">No notes</span>}
+                                </p>
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-white/40 text-sm">Nothing on the stage</p>
+                    )}
+                </section>
+
+                <aside className="flex flex-col gap-3 min-h-0">
+                    <p className="text-white/50 text-xs uppercase tracking-wide">Up next</p>
+                    {next ? (
+                        <div className="rounded-xl overflow-hidden border border-white/10 bg-white/5">
+                            <ItemPreview item={next} className="w-full aspect-[16/10] object-cover" />
+                            <p className="px-3 py-2 text-sm text-white/80">{next.title}</p>
+                        </div>
+                    ) : (
+                        <p className="text-white/30 text-sm">{state.total > 0 ? 'End of script' : '—'}</p>
+                    )}
+                    {current && (
+                        <div className="mt-auto rounded-xl overflow-hidden border border-white/10 opacity-60">
+                            <ItemPreview item={current} className="w-full aspect-[16/10] object-cover" />
+                        </div>
+                    )}
+                </aside>
+            </main>
+
+            <footer className="flex gap-3">
+                <button
+                    className="px-4 py-2 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-sm transition-colors"
+                    onClick={() => send('prev')}
+                >
+                    ← Previous
+                </button>
+                <button
+                    className="px-4 py-2 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-sm transition-colors"
+                    onClick={() => send('next')}
+                >
+                    Next →
+                </button>
+                {state.total > 0 && (
+                    <button
+                        className="ml-auto px-4 py-2 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-sm transition-colors"
+                        onClick={() => send('end')}
+                    >
+                        End script
+                    </button>
+                )}
+            </footer>
+        </div>
+    );
+}
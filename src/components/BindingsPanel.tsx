@@ -0,0 +1,120 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+    downloadGestureBindings,
+    GESTURE_ACTIONS,
+    GESTURE_TRIGGERS,
+    importGestureBindings,
+    PINCH_ACTIONS,
+    type GestureAction,
+    type GestureTrigger,
+    type PinchAction,
+} from '@/lib/tracking/gestureBindings';
+import type { useGestureBindings } from '@/hooks/useGestureBindings';
+
+interface BindingsPanelProps {
+    isVisible: boolean;
+    gestureBindings: ReturnType<typeof useGestureBindings>;
+}
+
+const buttonClass = 'px-2.5 py-1 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-white/80 text-xs transition-colors';
+const selectClass = 'w-40 bg-white/10 border border-white/10 rounded-lg text-white/80 text-xs px-1.5 py-1';
+
+/**
+ * Which gesture triggers which action, per presenter. Changes apply at once
+ * and are saved; Export/Import move a mapping between machines as JSON.
+ */
+export default function BindingsPanel({ isVisible, gestureBindings }: BindingsPanelProps) {
+    const { bindings, update, reset } = gestureBindings;
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            update(importGestureBindings(await file.text()));
+            setImportError(null);
+        } catch (err) {
+            setImportError((err as Error).message);
+        }
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    return (
+        <AnimatePresence>
+            {isVisible && (
+                <motion.div
+                    className="fixed top-28 left-[21rem] z-40 pointer-events-auto"
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                >
+                    <div className="bg-black/60 backdrop-blur-md rounded-xl px-4 py-3 border border-white/10 flex flex-col gap-3 w-96 max-h-[70vh] overflow-y-auto">
+                        <span className="text-white/90 text-sm font-medium">Gesture bindings</span>
+
+                        <div className="flex flex-col gap-1.5 text-xs text-white/60">
+                            Pinch
+                            {(['Right', 'Left'] as const).map(hand => (
+                                <label key={hand} className="flex items-center justify-between gap-2">
+                                    🤏 {hand} hand
+                                    <select
+                                        className={selectClass}
+                                        value={bindings.pinch[hand]}
+                                        onChange={e => update({
+                                            ...bindings,
+                                            pinch: { ...bindings.pinch, [hand]: e.target.value as PinchAction },
+                                        })}
+                                    >
+                                        {(Object.keys(PINCH_ACTIONS) as PinchAction[]).map(action => (
+                                            <option key={action} value={action}>{PINCH_ACTIONS[action].label}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="flex flex-col gap-1.5 text-xs text-white/60">
+                            Gestures
+                            {(Object.keys(GESTURE_TRIGGERS) as GestureTrigger[]).map(trigger => (
+                                <label key={trigger} className="flex items-center justify-between gap-2">
+                                    {GESTURE_TRIGGERS[trigger].label}
+                                    <select
+                                        className={selectClass}
+                                        value={bindings.gestures[trigger]}
+                                        onChange={e => update({
+                                            ...bindings,
+                                            gestures: { ...bindings.gestures, [trigger]: e.target.value as GestureAction },
+                                        })}
+                                    >
+                                        {(Object.keys(GESTURE_ACTIONS) as GestureAction[]).map(action => (
+                                            <option key={action} value={action}>{GESTURE_ACTIONS[action].label}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="flex gap-2">
+                            <button className={buttonClass} onClick={() => downloadGestureBindings(bindings)}>Export</button>
+                            <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>Import…</button>
+                            <button className={`${buttonClass} ml-auto`} onClick={reset}>Reset</button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={e => handleFile(e.target.files?.[0])}
+                            />
+                        </div>
+
+                        {importError && <p className="text-red-300 text-xs">{importError}</p>}
+
+                        <p className="text-white/40 text-[10px]">k toggle · Changes apply at once and are saved in this browser</p>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CAMERA_PRESETS, type CameraErrorKind } from '@/lib/media/camera';
+import { BACKGROUND_EFFECTS } from '@/lib/media/background';
+import { HAND_ASSIGNMENT_POLICIES, type HandAssignmentPolicy } from '@/lib/tracking/handIdentity';
+import type { useCamera } from '@/hooks/useCamera';
+import type { useBackgroundEffect } from '@/hooks/useBackgroundEffect';
+import type { useHandRoles } from '@/hooks/useHandRoles';
+
+interface CameraPanelProps {
+    isVisible: boolean;
+    camera: ReturnType<typeof useCamera>;
+    background: ReturnType<typeof useBackgroundEffect>;
+    handRoles: ReturnType<typeof useHandRoles>;
+}
+
+const ERROR_TITLES: Record<CameraErrorKind, string> = {
+    denied: 'Camera blocked',
+    notFound: 'No camera',
+    inUse: 'Camera busy',
+    unsupported: 'Camera unsupported',
+    unknown: 'Camera error',
+};
+
+const buttonClass = 'px-2.5 py-1 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-white/80 text-xs transition-colors';
+const selectClass = 'w-full bg-white/10 border border-white/10 rounded-lg text-white/80 text-xs px-1.5 py-1';
+
+function readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+export default function CameraPanel({ isVisible, camera, background, handRoles }: CameraPanelProps) {
+    const { status, error, devices, settings, activeDeviceId, format } = camera;
+    const { effect, color, image } = background.settings;
+    const imageInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImage = async (file: File | undefined) => {
+        if (!file) return;
+        background.update({ effect: 'image', image: await readAsDataUrl(file) });
+        if (imageInputRef.current) imageInputRef.current.value = '';
+    };
+    const selectedDevice = settings.deviceId && devices.some(device => device.deviceId === settings.deviceId)
+        ? settings.deviceId
+        : '';
+
+    return (
+        <AnimatePresence>
+            {isVisible && (
+                <motion.div
+                    className="fixed top-28 left-6 z-40 pointer-events-auto"
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                >
+                    <div className="bg-black/60 backdrop-blur-md rounded-xl px-4 py-3 border border-white/10 flex flex-col gap-3 w-72">
+                        <div className="flex items-center justify-between">
+                            <span className="text-white/90 text-sm font-medium">Camera</span>
+                            <span className="flex items-center gap-1.5 text-xs text-white/50">
+                                <span className={`w-2 h-2 rounded-full ${status === 'ready' ? 'bg-green-400' : status === 'error' ? 'bg-red-500' : 'bg-yellow-400 animate-pulse'}`} />
+                                {status === 'ready' && format
+                                    ? `${format.width}×${format.height} · ${format.frameRate} fps`
+                                    : status === 'starting' ? 'Starting...' : 'Off'}
+                            </span>
+                        </div>
+
+                        {error && (
+                            <div className="bg-red-950/60 rounded-lg px-3 py-2 border border-red-500/30 flex flex-col gap-2">
+                                <p className="text-red-200 text-xs font-medium">{ERROR_TITLES[error.kind]}</p>
+                                <p className="text-red-200/80 text-xs">{error.message}</p>
+                                <button className={`${buttonClass} self-end`} onClick={camera.retry}>Retry</button>
+                            </div>
+                        )}
+
+                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                            Device
+                            <select
+                                className={selectClass}
+                                value={selectedDevice}
+                                onChange={e => camera.selectDevice(e.target.value || null)}
+                            >
+                                <option value="">Default camera</option>
+                                {devices.map((device, index) => (
+                                    <option key={device.deviceId} value={device.deviceId}>
+                                        {device.label || `Camera ${index + 1}`}
+                                        {device.deviceId === activeDeviceId ? ' (in use)' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+
+                        {settings.deviceId && !selectedDevice && devices.length > 0 && (
+                            <p className="text-amber-200/80 text-xs">The chosen camera is unplugged; using the default one until it is back.</p>
+                        )}
+
+                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                            Quality
+                            <select
+                                className={selectClass}
+                                value={settings.presetId}
+                                onChange={e => camera.selectPreset(e.target.value)}
+                            >
+                                {CAMERA_PRESETS.map(preset => (
+                                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                                ))}
+                            </select>
+                        </label>
+
+                        {/* Background */}
+                        <div className="flex flex-col gap-1.5 text-xs text-white/60">
+                            Background
+                            <div className="flex flex-wrap gap-1.5">
+                                {BACKGROUND_EFFECTS.map(option => (
+                                    <button
+                                        key={option.id}
+                                        className={`${buttonClass} ${effect === option.id ? 'bg-white/30 text-white' : ''}`}
+                                        onClick={() => option.id === 'image' && !image
+                                            ? imageInputRef.current?.click()
+                                            : background.update({ effect: option.id })}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {(effect === 'color' || effect === 'image') && (
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="color"
+                                        value={color}
+                                        onChange={e => background.update({ color: e.target.value })}
+                                        className="w-7 h-6 bg-transparent"
+                                    />
+                                    <button className={buttonClass} onClick={() => imageInputRef.current?.click()}>
+                                        {image ? 'Change picture…' : 'Picture…'}
+                                    </button>
+                                </div>
+                            )}
+                            <input
+                                ref={imageInputRef}
+                                type="file"
+                                accept="image/*"
+                                className="hidden"
+                                onChange={e => handleImage(e.target.files?.[0])}
+                            />
+                            {background.segmentation === 'loading' && (
+                                <p className="text-white/40 text-[10px]">Loading the segmentation model...</p>
+                            )}
+                            {background.segmentation === 'error' && (
+                                <p className="text-amber-200/80 text-[10px]">
+                                    Presenter cut-out unavailable, so the effect covers the whole picture. {background.segmentationError}
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Hands */}
+                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                            Hands
+                            <select
+                                className={selectClass}
+                                value={handRoles.settings.policy}
+                                onChange={e => handRoles.update({ policy: e.target.value as HandAssignmentPolicy })}
+                            >
+                                {HAND_ASSIGNMENT_POLICIES.map(policy => (
+                                    <option key={policy.id} value={policy.id}>{policy.label}</option>
+                                ))}
+                            </select>
+                            <span className="text-white/40 text-[10px]">
+                                {HAND_ASSIGNMENT_POLICIES.find(policy => policy.id === handRoles.settings.policy)?.description}
+                            </span>
+                        </label>
+                        {handRoles.settings.policy !== 'dominant' && (
+                            <label className="flex items-center gap-2 text-xs text-white/60">
+                                <input
+                                    type="checkbox"
+                                    checked={handRoles.settings.leftHanded}
+                                    onChange={e => handRoles.update({ leftHanded: e.target.checked })}
+                                />
+                                Left-handed (left hand drags, right hand zooms)
+                            </label>
+                        )}
+
+                        <p className="text-white/40 text-[10px]">v toggle · b next background · Higher resolutions cost tracking speed</p>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { motion } from 'framer-motion';
+import type { ComparisonLayout } from '@/lib/gallery/store';
+import type { GalleryImage } from '@/lib/gallery/types';
+import type { ViewTransform } from '@/lib/viewTransform';
+
+interface ComparisonFrameProps {
+    before: GalleryImage;
+    after: GalleryImage;
+    // The "after" media, rendered by the viewer so its playback controls keep working
+    children: React.ReactNode;
+    layout: ComparisonLayout;
+    // 0-1 across the frame: the split between panes, or the wipe position
+    divider: number;
+    // Shared zoom/pan, applied inside each pane so both images stay in sync
+    view: ViewTransform;
+    isMovingDivider: boolean;
+}
+
+// Pane sizes never go below this fraction, so both images stay grabbable
+const MIN_PANE = 0.1;
+
+function BeforeMedia({ image }: { image: GalleryImage }) {
+    if (image.mediaType === 'video') {
+        return (
+            <video
+                src={image.src}
+                aria-label={image.alt}
+                className="w-full h-full object-contain"
+                autoPlay
+                loop
+                muted
+                playsInline
+            />
+        );
+    }
+    return <img src={image.src} alt={image.alt} className="w-full h-full object-contain" draggable={false} />;
+}
+
+function PaneLabel({ label, image, align }: { label: string; image: GalleryImage; align: 'left' | 'right' }) {
+    return (
+        <div className={`absolute top-3 ${align === 'left' ? 'left-3' : 'right-3'} z-10 bg-black/50 backdrop-blur-sm rounded-full px-3 py-1 border border-white/10 pointer-events-none`}>
+            <span className="text-white/60 text-[10px] uppercase tracking-wide mr-2">{label}</span>
+            <span className="text-white/90 text-xs font-medium">{image.title}</span>
+        </div>
+    );
+}
+
+export default function ComparisonFrame({ before, after, children, layout, divider, view, isMovingDivider }: ComparisonFrameProps) {
+    const split = Math.max(MIN_PANE, Math.min(1 - MIN_PANE, divider));
+    const transform = { x: view.x, y: view.y, scale: view.scale, rotate: view.rotation };
+    const spring = { type: 'spring' as const, stiffness: 200, damping: 25 };
+
+    if (layout === 'sideBySide') {
+        return (
+            <div className="flex gap-2 w-[55vw] h-[65vh]">
+                <div data-compare-pane className="relative h-full overflow-hidden rounded-xl bg-black/30" style={{ width: `${split * 100}%` }}>
+                    <PaneLabel label="Before" image={before} align="left" />
+                    <motion.div className="w-full h-full" animate={transform} transition={spring}>
+                        <BeforeMedia image={before} />
+                    </motion.div>
+                </div>
+                <div data-compare-pane className="relative h-full overflow-hidden rounded-xl bg-black/30" style={{ width: `${(1 - split) * 100}%` }}>
+                    <PaneLabel label="After" image={after} align="right" />
+                    <motion.div className="w-full h-full" animate={transform} transition={spring}>
+                        {children}
+                    </motion.div>
+                </div>
+            </div>
+        );
+    }
+
+    // Wipe: "after" fills the frame, "before" is revealed left of the divider
+    return (
+        <div data-compare-pane className="relative w-[55vw] h-[65vh] overflow-hidden rounded-xl bg-black/30">
+            <motion.div className="absolute inset-0" animate={transform} transition={spring}>
+                {children}
+            </motion.div>
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${(1 - divider) * 100}% 0 0)` }}>
+                <motion.div className="w-full h-full" animate={transform} transition={spring}>
+                    <BeforeMedia image={before} />
+                </motion.div>
+            </div>
+
+            <PaneLabel label="Before" image={before} align="left" />
+            <PaneLabel label="After" image={after} align="right" />
+
+            {/* Divider */}
+            <div className="absolute top-0 bottom-0 -translate-x-1/2 pointer-events-none" style={{ left: `${divider * 100}%` }}>
+                <div className={`h-full w-0.5 ${isMovingDivider ? 'bg-blue-400' : 'bg-white/80'}`} />
+                <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full border-2 flex items-center justify-center text-xs ${isMovingDivider ? 'border-blue-400 bg-blue-400/30 text-white' : 'border-white/80 bg-black/40 text-white/80'}`}>
+                    ⇔
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { HandData } from '@/hooks/useHandTracking';
+import { useGestureEvent } from '@/hooks/useGestureEngine';
+import { toScreenPoint } from '@/lib/screen';
+import {
+    detectFingerCurls,
+    PINCH_THRESHOLD,
+    THUMB_GESTURE_THRESHOLD,
+    thumbVerticalDelta,
+} from '@/lib/tracking/gestures';
+import { DEFAULT_GESTURE_CONFIG, type GestureEngine, type GestureEventType } from '@/lib/tracking/gestureEngine';
+import { DEFAULT_CLASSIFIER_CONFIG, type PoseMatch } from '@/lib/tracking/poseClassifier';
+
+interface DebugOverlayProps {
+    isVisible: boolean;
+    leftHand: HandData | null;
+    rightHand: HandData | null;
+    fps: number;
+    gestures: GestureEngine;
+}
+
+// MediaPipe hand topology: thumb, index, middle, ring, pinky and the palm
+const HAND_CONNECTIONS: [number, number][] = [
+    [0, 1], [1, 2], [2, 3], [3, 4],
+    [0, 5], [5, 6], [6, 7], [7, 8],
+    [9, 10], [10, 11], [11, 12],
+    [13, 14], [14, 15], [15, 16],
+    [0, 17], [17, 18], [18, 19], [19, 20],
+    [5, 9], [9, 13], [13, 17],
+];
+
+const FINGER_TIPS = [4, 8, 12, 16, 20];
+
+const HAND_COLORS = {
+    Left: { bone: 'rgba(147, 197, 253, 0.8)', joint: '#60a5fa', text: 'text-blue-300' },
+    Right: { bone: 'rgba(134, 239, 172, 0.8)', joint: '#4ade80', text: 'text-green-300' },
+};
+
+const MAX_LOG_ENTRIES = 6;
+
+interface LogEntry {
+    id: number;
+    time: number;
+    label: string;
+}
+
+function describeEvent(type: GestureEventType, event: object) {
+    const details = Object.entries(event)
+        .filter(([key]) => key === 'hand' || key === 'direction' || key === 'lost' || key === 'pose')
+        .filter(([key, value]) => key !== 'lost' || value)
+        .map(([key, value]) => (key === 'lost' ? 'lost' : String(value)));
+    return details.length ? `${type} · ${details.join(' · ')}` : type;
+}
+
+function drawHand(ctx: CanvasRenderingContext2D, hand: HandData) {
+    const points = hand.landmarks.map(toScreenPoint);
+    const colors = HAND_COLORS[hand.handedness];
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = colors.bone;
+    ctx.beginPath();
+    HAND_CONNECTIONS.forEach(([from, to]) => {
+        ctx.moveTo(points[from].x, points[from].y);
+        ctx.lineTo(points[to].x, points[to].y);
+    });
+    ctx.stroke();
+
+    // Pinch span, red once it is under the threshold
+    ctx.setLineDash([4, 4]);
+    ctx.strokeStyle = hand.pinchDistance < PINCH_THRESHOLD ? '#f87171' : 'rgba(255, 255, 255, 0.5)';
+    ctx.beginPath();
+    ctx.moveTo(points[4].x, points[4].y);
+    ctx.lineTo(points[8].x, points[8].y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    points.forEach((point, index) => {
+        const isTip = FINGER_TIPS.includes(index);
+        ctx.fillStyle = isTip ? '#ffffff' : colors.joint;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, isTip ? 5 : 3.5, 0, Math.PI * 2);
+        ctx.fill();
+    });
+
+    ctx.font = '10px ui-monospace, monospace';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    points.forEach((point, index) => ctx.fillText(String(index), point.x + 6, point.y - 6));
+}
+
+// A value against its threshold on a 0..2×threshold scale
+function Meter({ value, threshold, active }: { value: number; threshold: number; active: boolean }) {
+    const scale = threshold * 2;
+    return (
+        <div className="relative h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div
+                className={`absolute inset-y-0 left-0 ${active ? 'bg-red-400' : 'bg-white/50'}`}
+                style={{ width: `${Math.min(1, Math.abs(value) / scale) * 100}%` }}
+            />
+            <div className="absolute inset-y-0 w-px bg-amber-300" style={{ left: '50%' }} />
+        </div>
+    );
+}
+
+function Flag({ label, on }: { label: string; on: boolean }) {
+    return (
+        <span className={`px-1.5 py-0.5 rounded text-[10px] ${on ? 'bg-white/80 text-black' : 'bg-white/10 text-white/40'}`}>
+            {label}
+        </span>
+    );
+}
+
+function HandPanel({ hand, engineActive, pose }: { hand: HandData; engineActive: boolean; pose: PoseMatch | null }) {
+    const { enterDistance, exitDistance } = DEFAULT_GESTURE_CONFIG.pinch;
+    const curls = detectFingerCurls(hand.landmarks);
+    const thumbDelta = thumbVerticalDelta(hand.landmarks);
+
+    return (
+        <div className="bg-black/70 backdrop-blur-md rounded-xl px-3 py-2 border border-white/10 w-56 flex flex-col gap-1.5 font-mono text-[10px] text-white/70">
+            <div className="flex items-center justify-between text-xs">
+                <span className={HAND_COLORS[hand.handedness].text}>
+                    {hand.handedness}{hand.id !== undefined && <span className="text-white/40"> #{hand.id}</span>}
+                </span>
+                <span>{(hand.score * 100).toFixed(0)}% sure</span>
+            </div>
+
+            <div>
+                <div className="flex justify-between">
+                    <span>pinch {hand.pinchDistance.toFixed(3)}</span>
+                    <span>&lt; {enterDistance.toFixed(2)} / &gt; {exitDistance.toFixed(2)}</span>
+                </div>
+                <Meter value={hand.pinchDistance} threshold={PINCH_THRESHOLD} active={hand.isPinching} />
+            </div>
+
+            <div>
+                <div className="flex justify-between">
+                    <span>thumb Δy {thumbDelta >= 0 ? '+' : ''}{thumbDelta.toFixed(3)}</span>
+                    <span>±{THUMB_GESTURE_THRESHOLD.toFixed(2)}</span>
+                </div>
+                <Meter
+                    value={thumbDelta}
+                    threshold={THUMB_GESTURE_THRESHOLD}
+                    active={Math.abs(thumbDelta) > THUMB_GESTURE_THRESHOLD}
+                />
+            </div>
+
+            <div className="flex items-center gap-1">
+                <span className="mr-1">curled</span>
+                <Flag label="I" on={curls.index} />
+                <Flag label="M" on={curls.middle} />
+                <Flag label="R" on={curls.ring} />
+                <Flag label="P" on={curls.pinky} />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+                <Flag label="pinch" on={hand.isPinching} />
+                <Flag label="held" on={engineActive} />
+                <Flag label="👍" on={hand.isThumbsUp} />
+                <Flag label="👎" on={hand.isThumbsDown} />
+                <Flag label="✋" on={hand.isOpenPalm} />
+            </div>
+
+            {pose && (
+                <div className="flex justify-between">
+                    <span>pose {pose.poseId}</span>
+                    <span>{pose.distance.toFixed(3)} ≤ {DEFAULT_CLASSIFIER_CONFIG.maxDistance.toFixed(2)}</span>
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Landmarks, bones and the numbers behind each gesture decision, for tuning the
+ * thresholds in gestures.ts and gestureEngine.ts. Toggled with `d`.
+ */
+export default function DebugOverlay({ isVisible, leftHand, rightHand, fps, gestures }: DebugOverlayProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [log, setLog] = useState<LogEntry[]>([]);
+    const nextLogId = useRef(0);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        canvas.width = window.innerWidth;
+        canvas.height = window.innerHeight;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+        if (leftHand) drawHand(ctx, leftHand);
+        if (rightHand) drawHand(ctx, rightHand);
+    }, [isVisible, leftHand, rightHand]);
+
+    // Discrete events only; pinchMove would drown the rest
+    const logEvent = (type: GestureEventType) => (event: object) => {
+        if (!isVisible) return;
+        const entry = { id: nextLogId.current++, time: performance.now(), label: describeEvent(type, event) };
+        setLog(prev => [entry, ...prev].slice(0, MAX_LOG_ENTRIES));
+    };
+    useGestureEvent(gestures, 'pinchStart', logEvent('pinchStart'));
+    useGestureEvent(gestures, 'pinchEnd', logEvent('pinchEnd'));
+    useGestureEvent(gestures, 'thumbsUp', logEvent('thumbsUp'));
+    useGestureEvent(gestures, 'thumbsDown', logEvent('thumbsDown'));
+    useGestureEvent(gestures, 'palmHold', logEvent('palmHold'));
+    useGestureEvent(gestures, 'bothPalms', logEvent('bothPalms'));
+    useGestureEvent(gestures, 'bothThumbsUp', logEvent('bothThumbsUp'));
+    useGestureEvent(gestures, 'bothThumbsDown', logEvent('bothThumbsDown'));
+    useGestureEvent(gestures, 'swipe', logEvent('swipe'));
+    useGestureEvent(gestures, 'customPose', logEvent('customPose'));
+
+    if (!isVisible) return null;
+
+    const now = performance.now();
+
+    return (
+        <div className="fixed inset-0 pointer-events-none z-40">
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+            <div className="absolute bottom-6 right-[26%] flex flex-col items-end gap-2">
+                <div className="bg-black/70 backdrop-blur-md rounded-xl px-3 py-2 border border-white/10 w-56 font-mono text-[10px] text-white/70">
+                    <div className="flex justify-between text-xs">
+                        <span>Debug</span>
+                        <span>{fps.toFixed(0)} fps</span>
+                    </div>
+                    {log.length === 0 && <p className="text-white/40 mt-1">No gestures yet</p>}
+                    {log.map(entry => (
+                        <p key={entry.id} className="mt-0.5 truncate">
+                            <span className="text-white/40">{((now - entry.time) / 1000).toFixed(1)}s </span>
+                            {entry.label}
+                        </p>
+                    ))}
+                </div>
+                <div className="flex gap-2 items-end">
+                    {leftHand && <HandPanel hand={leftHand} engineActive={gestures.isPinching('Left')} pose={gestures.currentPose('Left')} />}
+                    {rightHand && <HandPanel hand={rightHand} engineActive={gestures.isPinching('Right')} pose={gestures.currentPose('Right')} />}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -6,11 +6,25 @@ import type { HandData } from '@/hooks/useHandTracking';
 interface HandCursorsProps {
     leftHand: HandData | null;
     rightHand: HandData | null;
+    // Also draw the unfiltered pinch position for comparison
+    showRaw?: boolean;
 }
 
-export default function HandCursors({ leftHand, rightHand }: HandCursorsProps) {
+export default function HandCursors({ leftHand, rightHand, showRaw = false }: HandCursorsProps) {
     return (
         <div className="fixed inset-0 pointer-events-none z-40">
+            {/* Raw (unfiltered) positions, drawn without springs so jitter stays visible */}
+            {showRaw && [leftHand, rightHand].map(hand => hand && (
+                <div
+                    key={hand.handedness}
+                    className={`absolute w-4 h-4 rounded-full border ${hand.handedness === 'Left' ? 'border-blue-200/70' : 'border-green-200/70'}`}
+                    style={{
+                        left: (1 - hand.rawPinchPosition.x) * window.innerWidth - 8,
+                        top: hand.rawPinchPosition.y * window.innerHeight - 8,
+                    }}
+                />
+            ))}
+
             {/* Left Hand Cursor */}
             <AnimatePresence>
                 {leftHand && (
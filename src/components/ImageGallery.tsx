@@ -3,43 +3,50 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { HandData } from '@/hooks/useHandTracking';
-
-interface GalleryImage {
-    id: string;
-    src: string;
-    title: string;
-}
+import { useGestureEvent } from '@/hooks/useGestureEngine';
+import { useGestureAction } from '@/hooks/useGestureBindings';
+import type { GestureEngine } from '@/lib/tracking/gestureEngine';
+import { gestureHint, type ActionBus, type GestureAction } from '@/lib/tracking/gestureBindings';
+import MediaThumbnail from '@/components/MediaThumbnail';
+import { useGallery } from '@/context/GalleryContext';
+import type { GalleryImage } from '@/lib/gallery/types';
+import { isInside, toScreenPoint } from '@/lib/screen';
 
 interface ImageGalleryProps {
-    rightHand: HandData | null;
-    onImageSelect: (image: GalleryImage | null, dragPosition?: { x: number; y: number }) => void;
-    selectedImage: GalleryImage | null;
+    // The hand whose pinch drags; its cursor highlights thumbnails
+    dragHand: HandData | null;
+    gestures: GestureEngine;
+    actions: ActionBus;
     isDragging: boolean;
     setIsDragging: (dragging: boolean) => void;
 }
 
-// Images are loaded from public/gallery/ folder
-// To add your own images, place them in public/gallery/ with names like:
-// image1.jpg, image2.gif, project-screenshot.jpg, etc.
-const GALLERY_IMAGES: GalleryImage[] = [
-    { id: '1', src: '/gallery/image1.gif', title: 'nature' },
-    { id: '2', src: '/gallery/image2.jpg', title: 'chameleon' },
-    { id: '3', src: '/gallery/image3.gif', title: 'cute' },
-    { id: '4', src: '/gallery/image4.gif', title: 'harmony'},
-    { id: '5', src: '/gallery/image5.gif', title: 'wind'},
-    { id: '6', src: '/gallery/image6.gif', title: 'blob'},
-    { id: '7', src: 'gallery/image7.gif', title: 'thanks for watching'},
-];
-
 const SCROLL_SPEED = 20; // Pixels per frame for thumb gesture scroll (2x speed)
 
 export default function ImageGallery({
-    rightHand,
-    onImageSelect,
-    selectedImage,
+    dragHand,
+    gestures,
+    actions,
     isDragging,
     setIsDragging
 }: ImageGalleryProps) {
+    const {
+        albumImages: images,
+        albums,
+        currentAlbum,
+        status,
+        error: galleryError,
+        selectedImage,
+        stage,
+        script,
+        scriptIndex,
+        select,
+        next,
+        prev,
+        selectAlbum,
+        nextAlbum,
+        prevAlbum,
+    } = useGallery();
     const [scrollY, setScrollY] = useState(0);
     const [hoveredImage, setHoveredImage] = useState<string | null>(null);
     const [draggedImage, setDraggedImage] = useState<GalleryImage | null>(null);
@@ -48,152 +55,97 @@ export default function ImageGallery({
 
     const galleryRef = useRef<HTMLDivElement>(null);
     const contentRef = useRef<HTMLDivElement>(null);
-    const lastPinchState = useRef(false);
+    const scrollIndicatorTimeout = useRef<ReturnType<typeof setTimeout>>(undefined);
 
-    const lastThumbActionTime = useRef(0);
-    const lastSelectedId = useRef<string | null>(null);
-
-    // Keep track of last selected image
+    // Start each album at the top
     useEffect(() => {
-        if (selectedImage) {
-            lastSelectedId.current = selectedImage.id;
-        }
-    }, [selectedImage]);
+        setScrollY(0);
+    }, [currentAlbum?.id]);
 
-    // Handle thumbs up/down for next/prev image
+    // Scroll to keep the selected image visible
     useEffect(() => {
-        if (!rightHand || draggedImage) {
-            setIsThumbScrolling(null);
+        if (!selectedImage) return;
+        const index = images.findIndex(img => img.id === selectedImage.id);
+        // Approximate height of item + gap = 140px
+        if (index >= 0) setScrollY(Math.max(0, index * 140 - 100));
+    }, [images, selectedImage]);
+
+    // Show the scroll indicator briefly after each thumbs step
+    const flashScrollIndicator = useCallback((direction: 'up' | 'down') => {
+        setIsThumbScrolling(direction);
+        clearTimeout(scrollIndicatorTimeout.current);
+        scrollIndicatorTimeout.current = setTimeout(() => setIsThumbScrolling(null), 600);
+    }, []);
+
+    useEffect(() => () => clearTimeout(scrollIndicatorTimeout.current), []);
+
+    // Right thumbs up/down for next/prev image by default
+    useGestureAction(actions, 'next', () => {
+        if (draggedImage) return;
+        next();
+        flashScrollIndicator('down'); // Visual feedback direction
+    });
+
+    useGestureAction(actions, 'prev', () => {
+        if (draggedImage) return;
+        prev();
+        flashScrollIndicator('up'); // Visual feedback direction
+    });
+
+    // Left-hand swipes flip between albums by default
+    useGestureAction(actions, 'nextAlbum', () => {
+        if (!draggedImage) nextAlbum();
+    });
+    useGestureAction(actions, 'prevAlbum', () => {
+        if (!draggedImage) prevAlbum();
+    });
+
+    // Pinch on a thumbnail to pick it up, or on an album cover to open it
+    useGestureEvent(gestures, 'pinchStart', ({ hand, position }) => {
+        if (actions.pinchAction(hand) !== 'drag' || draggedImage) return;
+
+        const albumId = document.elementFromPoint(position.x, position.y)
+            ?.closest('[data-album-id]')?.getAttribute('data-album-id');
+        if (albumId) {
+            selectAlbum(albumId);
             return;
         }
 
-        const now = Date.now();
-        if (now - lastThumbActionTime.current < 1000) return; // 1 second cooldown
-
-        if (rightHand.isThumbsUp) {
-            // Select Next Image
-            setIsThumbScrolling('down'); // Visual feedback direction
-            lastThumbActionTime.current = now;
-
-            let currentIndex = -1;
-            if (selectedImage) {
-                currentIndex = GALLERY_IMAGES.findIndex(img => img.id === selectedImage.id);
-            } else if (lastSelectedId.current) {
-                currentIndex = GALLERY_IMAGES.findIndex(img => img.id === lastSelectedId.current);
-            }
-
-            const nextIndex = currentIndex + 1 < GALLERY_IMAGES.length ? currentIndex + 1 : 0;
-            const nextImage = GALLERY_IMAGES[nextIndex];
-
-            onImageSelect(nextImage);
-
-            // Scroll to make it visible
-            // Approximate height of item + gap = 140px
-            const targetScroll = Math.max(0, nextIndex * 140 - 100);
-            setScrollY(targetScroll);
-
-        } else if (rightHand.isThumbsDown) {
-            // Select Previous Image
-            setIsThumbScrolling('up'); // Visual feedback direction
-            lastThumbActionTime.current = now;
-
-            let currentIndex = 0;
-            if (selectedImage) {
-                currentIndex = GALLERY_IMAGES.findIndex(img => img.id === selectedImage.id);
-            } else if (lastSelectedId.current) {
-                currentIndex = GALLERY_IMAGES.findIndex(img => img.id === lastSelectedId.current);
-            }
-
-            const prevIndex = currentIndex - 1 >= 0 ? currentIndex - 1 : GALLERY_IMAGES.length - 1;
-            const prevImage = GALLERY_IMAGES[prevIndex];
-
-            onImageSelect(prevImage);
-
-            // Scroll to make it visible
-            const targetScroll = Math.max(0, prevIndex * 140 - 100);
-            setScrollY(targetScroll);
-
-        } else {
-            setIsThumbScrolling(null);
-        }
-    }, [rightHand, draggedImage, selectedImage, onImageSelect]);
-
-    // Handle pinch-to-drag in gallery
-    useEffect(() => {
-        if (!rightHand || draggedImage) return;
-        // Skip if doing thumb gesture
-        if (rightHand.isThumbsUp || rightHand.isThumbsDown) return;
-
         const galleryRect = galleryRef.current?.getBoundingClientRect();
-        if (!galleryRect) return;
-
-        const pinchX = (1 - rightHand.pinchPosition.x) * window.innerWidth;
-        const pinchY = rightHand.pinchPosition.y * window.innerHeight;
-
-        // Check if pinch is inside gallery
-        const isInGallery = pinchX >= galleryRect.left && pinchX <= galleryRect.right &&
-            pinchY >= galleryRect.top && pinchY <= galleryRect.bottom;
-
-        if (rightHand.isPinching && isInGallery) {
-            if (!lastPinchState.current) {
-                // Start of pinch - check if on an image
-                // Use elementFromPoint to find the image under the pinch
-                // We temporarily hide the cursor/hand to find the element
-                const element = document.elementFromPoint(pinchX, pinchY);
-                const imageContainer = element?.closest('[data-image-id]');
+        if (!galleryRect || !isInside(position, galleryRect)) return;
 
-                if (imageContainer) {
-                    const id = imageContainer.getAttribute('data-image-id');
-                    const image = GALLERY_IMAGES.find(img => img.id === id);
-                    if (image) {
-                        setDraggedImage(image);
-                        setDragPosition({ x: pinchX, y: pinchY });
-                        setIsDragging(true);
-                    }
-                } else {
-                    // Fallback to approximate calculation if elementFromPoint fails
-                    // This is less accurate but works if the pointer events are blocked
-                    const relY = pinchY - galleryRect.top + scrollY;
-                    // Estimate height based on width (approx 16/10 aspect ratio + padding)
-                    const itemHeight = (galleryRect.width - 24) * (10 / 16) + 12;
-                    const imageIndex = Math.floor(relY / itemHeight);
+        // Use elementFromPoint to find the image under the pinch
+        const element = document.elementFromPoint(position.x, position.y);
+        const id = element?.closest('[data-image-id]')?.getAttribute('data-image-id');
+        const image = images.find(img => img.id === id);
 
-                    if (imageIndex >= 0 && imageIndex < GALLERY_IMAGES.length) {
-                        // Only select if we haven't found it via elementFromPoint
-                        // setDraggedImage(GALLERY_IMAGES[imageIndex]);
-                        // setDragPosition({ x: pinchX, y: pinchY });
-                        // setIsDragging(true);
-                    }
-                }
-            }
+        if (image) {
+            setDraggedImage(image);
+            setDragPosition(position);
+            setIsDragging(true);
         }
+    });
 
-        lastPinchState.current = rightHand.isPinching;
-    }, [rightHand, draggedImage, scrollY, setIsDragging]);
+    useGestureEvent(gestures, 'pinchMove', ({ hand, position }) => {
+        if (actions.pinchAction(hand) !== 'drag' || !draggedImage) return;
+        setDragPosition(position);
+    });
 
-    // Handle dragging image
-    useEffect(() => {
-        if (!draggedImage || !rightHand) return;
-
-        const pinchX = (1 - rightHand.pinchPosition.x) * window.innerWidth;
-        const pinchY = rightHand.pinchPosition.y * window.innerHeight;
-
-        setDragPosition({ x: pinchX, y: pinchY });
+    // Release image when pinch ends
+    useGestureEvent(gestures, 'pinchEnd', ({ hand, position, lost }) => {
+        if (actions.pinchAction(hand) !== 'drag' || !draggedImage) return;
 
-        // Release image when pinch ends
-        if (!rightHand.isPinching) {
-            // Check if released in main view area (left 75% of screen)
-            if (pinchX < window.innerWidth * 0.75) {
-                onImageSelect(draggedImage, { x: pinchX, y: pinchY });
-            }
-            setDraggedImage(null);
-            setIsDragging(false);
+        // Drop only if released in main view area (left 75% of screen), not if tracking was lost
+        if (!lost && position.x < window.innerWidth * 0.75) {
+            select(draggedImage, position);
         }
-    }, [rightHand, draggedImage, onImageSelect, setIsDragging]);
+        setDraggedImage(null);
+        setIsDragging(false);
+    });
 
     // Determine hovered image from hand position
     useEffect(() => {
-        if (!rightHand || draggedImage) {
+        if (!dragHand || draggedImage) {
             setHoveredImage(null);
             return;
         }
@@ -201,35 +153,61 @@ export default function ImageGallery({
         const galleryRect = galleryRef.current?.getBoundingClientRect();
         if (!galleryRect) return;
 
-        const pinchX = (1 - rightHand.pinchPosition.x) * window.innerWidth;
-        const pinchY = rightHand.pinchPosition.y * window.innerHeight;
+        const position = toScreenPoint(dragHand.pinchPosition);
 
-        const isInGallery = pinchX >= galleryRect.left && pinchX <= galleryRect.right &&
-            pinchY >= galleryRect.top && pinchY <= galleryRect.bottom;
-
-        if (isInGallery) {
-            const element = document.elementFromPoint(pinchX, pinchY);
+        if (isInside(position, galleryRect)) {
+            const element = document.elementFromPoint(position.x, position.y);
             const imageContainer = element?.closest('[data-image-id]');
-
-            if (imageContainer) {
-                const id = imageContainer.getAttribute('data-image-id');
-                setHoveredImage(id || null);
-            } else {
-                setHoveredImage(null);
-            }
+            setHoveredImage(imageContainer?.getAttribute('data-image-id') || null);
         } else {
             setHoveredImage(null);
         }
-    }, [rightHand, scrollY, draggedImage]);
+    }, [dragHand, scrollY, draggedImage]);
+
+    // Header hints follow the gesture bindings; unbound actions are left out
+    const hint = (action: GestureAction, text: string) => {
+        const gesture = gestureHint(actions.bindings, action);
+        return gesture ? `${gesture}${text}` : null;
+    };
+    const hints = [hint('next', ' Next'), hint('prev', ' Prev'), albums.length > 1 ? hint('nextAlbum', ': Album') : null]
+        .filter(Boolean);
 
     return (
         <>
             <div className="absolute right-0 top-0 bottom-0 w-1/4 bg-black/40 backdrop-blur-md border-l border-white/10 flex flex-col z-20">
                 <div className="p-4 border-b border-white/10">
-                    <h2 className="text-white/90 font-medium text-sm tracking-wide">Gallery</h2>
-                    <p className="text-white/50 text-xs mt-1">👍 Next · 👎 Prev</p>
+                    <h2 className="text-white/90 font-medium text-sm tracking-wide">{currentAlbum?.name ?? 'Gallery'}</h2>
+                    <p className="text-white/50 text-xs mt-1">
+                        {hints.join(' · ')}
+                    </p>
+                    {script && (
+                        <p className="text-amber-200/80 text-xs mt-1 truncate">
+                            ▶ {script.title} · {scriptIndex + 1}/{script.items.length}
+                        </p>
+                    )}
                 </div>
 
+                {/* Album picker; wraps onto more rows so every cover stays in reach */}
+                {albums.length > 1 && (
+                    <div className="px-3 py-2 border-b border-white/10 flex flex-wrap gap-2">
+                        {albums.map(album => (
+                            <motion.div
+                                key={album.id}
+                                data-album-id={album.id}
+                                className={`relative w-16 shrink-0 rounded-md overflow-hidden ${album.id === currentAlbum?.id ? 'ring-2 ring-white/60' : 'opacity-60'}`}
+                                animate={{ scale: album.id === currentAlbum?.id ? 1 : 0.95 }}
+                                transition={{ type: 'spring', stiffness: 400, damping: 25 }}
+                            >
+                                <MediaThumbnail image={album.cover} className="w-full aspect-square object-cover" />
+                                <div className="absolute inset-0 bg-gradient-to-t from-black/70 to-transparent" />
+                                <p className="absolute bottom-0.5 left-1 right-1 text-white/90 text-[9px] font-medium truncate">
+                                    {album.name}
+                                </p>
+                            </motion.div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Scroll indicator - top */}
                 <AnimatePresence>
                     {isThumbScrolling === 'up' && (
@@ -252,11 +230,21 @@ export default function ImageGallery({
                         animate={{ y: -scrollY }}
                         transition={{ type: 'spring', stiffness: 300, damping: 30 }}
                     >
-                        {GALLERY_IMAGES.map((image) => (
+                        {status === 'loading' && (
+                            <p className="text-white/40 text-xs text-center py-6">Loading gallery...</p>
+                        )}
+                        {status !== 'loading' && images.length === 0 && (
+                            <p className="text-white/40 text-xs text-center py-6">
+                                {galleryError ?? 'No images in public/gallery'}
+                            </p>
+                        )}
+                        {images.map((image) => (
                             <motion.div
                                 key={image.id}
                                 data-image-id={image.id}
-                                className={`relative rounded-lg overflow-hidden cursor-pointer ${selectedImage?.id === image.id ? 'ring-2 ring-white/60' : ''
+                                className={`relative rounded-lg overflow-hidden cursor-pointer ${selectedImage?.id === image.id
+                                    ? 'ring-2 ring-white/60'
+                                    : stage.some(item => item.id === image.id) ? 'ring-1 ring-white/30' : ''
                                     }`}
                                 animate={{
                                     scale: hoveredImage === image.id ? 1.02 : 1,
@@ -265,11 +253,10 @@ export default function ImageGallery({
                                 transition={{ type: 'spring', stiffness: 400, damping: 25 }}
                             >
                                 <div className="aspect-[16/10] relative">
-                                    <img
-                                        src={image.src}
-                                        alt={image.title}
+                                    <MediaThumbnail
+                                        image={image}
                                         className="w-full h-full object-cover"
-                                        loading="lazy"
+                                        lazy
                                     />
                                     <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
                                     <div className="absolute bottom-2 left-2 right-2">
@@ -318,9 +305,8 @@ export default function ImageGallery({
                         transition={{ type: 'spring', stiffness: 400, damping: 30 }}
                     >
                         <div className="w-[200px] rounded-lg overflow-hidden shadow-2xl ring-2 ring-white/60">
-                            <img
-                                src={draggedImage.src}
-                                alt={draggedImage.title}
+                            <MediaThumbnail
+                                image={draggedImage}
                                 className="w-full aspect-[16/10] object-cover"
                             />
                         </div>
@@ -0,0 +1,59 @@
+"use client";
+
+import { AnimatePresence } from 'framer-motion';
+import ImageViewer from '@/components/ImageViewer';
+import { useGallery } from '@/context/GalleryContext';
+import { usePinchRouter } from '@/hooks/usePinchRouter';
+import type { GestureEngine } from '@/lib/tracking/gestureEngine';
+import type { ActionBus } from '@/lib/tracking/gestureBindings';
+
+interface ImageStageProps {
+    gestures: GestureEngine;
+    actions: ActionBus;
+}
+
+// Every image dropped on the stage, stacked back to front. Each viewer keeps its
+// own position and zoom; pinching one brings it to the front. While comparing,
+// the front viewer shows the two front-most images together.
+export default function ImageStage({ gestures, actions }: ImageStageProps) {
+    const { stageImages, comparison, bringToFront, remove } = useGallery();
+    const frontId = stageImages.at(-1)?.image.id ?? null;
+
+    // Each pinch goes to one viewer: the one the other hand is already holding,
+    // so both hands can manipulate it, else the one under the hand, else the
+    // front one over empty stage
+    const pinches = usePinchRouter(gestures, (hand, position) => {
+        if (actions.pinchAction(hand) === 'none') return null;
+        const held = pinches.targetOf(hand === 'Left' ? 'Right' : 'Left');
+        if (held) return held;
+        const hit = document.elementFromPoint(position.x, position.y)
+            ?.closest('[data-stage-id]')?.getAttribute('data-stage-id');
+        return hit ?? frontId;
+    });
+
+    return (
+        <div className="absolute inset-0 z-10 pointer-events-none">
+            <AnimatePresence>
+                {stageImages.map(({ image, dropPosition }, index) => {
+                    const isFront = index === stageImages.length - 1;
+                    return (
+                        <ImageViewer
+                            key={image.id}
+                            image={image}
+                            pinches={pinches}
+                            actions={actions}
+                            isFront={isFront}
+                            zIndex={index}
+                            // The front image shows the comparison; the rest step aside
+                            comparison={isFront ? comparison : null}
+                            hidden={comparison !== null && !isFront}
+                            onFocus={() => bringToFront(image.id)}
+                            onClose={() => remove(image.id)}
+                            initialPosition={dropPosition ?? undefined}
+                        />
+                    );
+                })}
+            </AnimatePresence>
+        </div>
+    );
+}
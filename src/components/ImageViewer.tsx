@@ -1,261 +1,554 @@
 "use client";
 
 import { useEffect, useRef, useState } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import type { HandData } from '@/hooks/useHandTracking';
+import { motion } from 'framer-motion';
+import { useGestureAction } from '@/hooks/useGestureBindings';
+import { usePinchEvent } from '@/hooks/usePinchRouter';
+import { useVideoPlayback } from '@/hooks/useVideoPlayback';
+import { useGifPlayback } from '@/hooks/useGifPlayback';
+import PlaybackBar, { formatPlaybackTime } from '@/components/PlaybackBar';
+import ComparisonFrame from '@/components/ComparisonFrame';
+import type { Comparison } from '@/lib/gallery/store';
+import { gestureHint, PINCH_ACTIONS, type ActionBus } from '@/lib/tracking/gestureBindings';
+import type { GalleryImage } from '@/lib/gallery/types';
+import { isInside, type Point } from '@/lib/screen';
+import type { PinchRouter } from '@/lib/tracking/pinchRouter';
+import type { Handedness } from '@/lib/tracking/types';
+import { clampPan, IDENTITY_VIEW, manipulate, MAX_ZOOM, MIN_ZOOM, zoomAround, type ViewTransform } from '@/lib/viewTransform';
 
-interface GalleryImage {
-    id: string;
-    src: string;
-    title: string;
+// Zoom & pan pinches starting below this fraction of the screen scrub instead
+const SCRUB_BAND_TOP = 0.75;
+// Horizontal pixels of hand travel that scrub through the whole clip
+const SCRUB_FULL_WIDTH = 600;
+// Zoom change per pixel of vertical hand movement
+const ZOOM_SPEED = 0.008;
+// Hand travel before a zoom & pan pinch commits to zooming or panning
+const MODE_LOCK_DISTANCE = 15;
+
+// A pinch bound to zooming and/or panning
+interface ViewPinch {
+    // Where the pinch started; zoom stays centered on this point
+    anchor: Point;
+    mode: 'zoom' | 'pan' | null;
+}
+
+interface TwoHandedPinch {
+    start: ViewTransform;
+    // Left and right pinch positions when the second hand joined
+    from: [Point, Point];
+    // The stage center, or the center of the comparison pane between the hands
+    center: Point;
 }
 
 interface ImageViewerProps {
-    image: GalleryImage | null;
-    leftHand: HandData | null;
-    rightHand: HandData | null;
+    image: GalleryImage;
+    // Delivers the pinches the stage routed to this image
+    pinches: PinchRouter;
+    actions: ActionBus;
+    // The front image also takes playback gestures
+    isFront: boolean;
+    zIndex: number;
+    onFocus: () => void;
     onClose: () => void;
-    initialPosition?: { x: number; y: number };
+    // Screen point the image was dropped at; it is placed there
+    initialPosition?: Point;
+    // Set on the front image while it is compared with the one behind it
+    comparison?: Comparison | null;
+    // Images behind a comparison are hidden and ignore gestures
+    hidden?: boolean;
 }
 
-export default function ImageViewer({ image, leftHand, rightHand, onClose, initialPosition }: ImageViewerProps) {
-    const [zoom, setZoom] = useState(1);
-    const [pan, setPan] = useState({ x: 0, y: 0 });
-    const [isDraggingWithRight, setIsDraggingWithRight] = useState(false);
+const stageCenter = () => ({ x: window.innerWidth * 0.375, y: window.innerHeight * 0.5 });
+
+export default function ImageViewer({
+    image,
+    pinches,
+    actions,
+    isFront,
+    zIndex,
+    onFocus,
+    onClose,
+    initialPosition,
+    comparison = null,
+    hidden = false,
+}: ImageViewerProps) {
+    const [view, setView] = useState<ViewTransform>(() => initialPosition
+        ? { ...IDENTITY_VIEW, x: initialPosition.x - stageCenter().x, y: initialPosition.y - stageCenter().y }
+        : IDENTITY_VIEW);
+    const [isDragging, setIsDragging] = useState(false);
     const [isInDismissZone, setIsInDismissZone] = useState(false);
     const [isDismissing, setIsDismissing] = useState(false);
+    const [isTwoHanded, setIsTwoHanded] = useState(false);
 
-    const lastPinchY = useRef(0);
-    const lastPinchX = useRef(0);
-    const isPinching = useRef(false);
-    const rightPinchStart = useRef<{ x: number; y: number } | null>(null);
+    const [isScrubbing, setIsScrubbing] = useState(false);
 
-    // Handle right hand dragging for moving the image
-    useEffect(() => {
-        if (!image || !rightHand || isDismissing) return;
+    // Comparison mode zooms and pans inside the panes, separately from the stage placement
+    const comparing = comparison !== null;
+    const [compareView, setCompareView] = useState<ViewTransform>(IDENTITY_VIEW);
+    const [divider, setDivider] = useState(0.5);
+    const [isMovingDivider, setIsMovingDivider] = useState(false);
+    const activeView = comparing ? compareView : view;
+    const setActiveView = comparing ? setCompareView : setView;
 
-        const pinchX = (1 - rightHand.pinchPosition.x) * window.innerWidth;
-        const pinchY = rightHand.pinchPosition.y * window.innerHeight;
+    const dragPinchStart = useRef<Point | null>(null);
+    const dragStartView = useRef<ViewTransform>(IDENTITY_VIEW);
+    const viewPinch = useRef<ViewPinch | null>(null);
+    const twoHanded = useRef<TwoHandedPinch | null>(null);
+    // Latest position of each pinching hand, null when not pinching
+    const pinchPoints = useRef<Record<Handedness, Point | null>>({ Left: null, Right: null });
+    const contentRef = useRef<HTMLDivElement>(null);
+    const resumeAfterScrub = useRef(false);
 
-        // Only track if pinch is in main view area (left 75%)
-        const isInMainView = pinchX < window.innerWidth * 0.75;
+    const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+    const isVideo = image.mediaType === 'video';
+    const playback = useVideoPlayback(videoElement, isVideo ? image.src : null);
 
-        if (rightHand.isPinching && isInMainView) {
-            if (!rightPinchStart.current) {
-                // Start of right hand pinch
-                rightPinchStart.current = { x: pinchX, y: pinchY };
-                setIsDraggingWithRight(true);
-            } else {
-                // Calculate new position based on hand movement
-                const deltaX = pinchX - rightPinchStart.current.x;
-                const deltaY = pinchY - rightPinchStart.current.y;
+    const [canvasElement, setCanvasElement] = useState<HTMLCanvasElement | null>(null);
+    const isGif = image.mediaType === 'gif';
+    const gifPlayback = useGifPlayback(canvasElement, isGif ? image.src : null);
+    // GIFs get frame controls once decoded; until then (or without ImageDecoder) they stay an <img>
+    const hasPlayback = isVideo || gifPlayback.ready;
 
-                setPan({ x: deltaX, y: deltaY });
+    const comparePanes = () => [...(contentRef.current?.querySelectorAll<HTMLElement>('[data-compare-pane]') ?? [])];
 
-                // Check if in dismiss zone (bottom 15% of screen)
-                const dismissThreshold = window.innerHeight * 0.85;
-                setIsInDismissZone(pinchY > dismissThreshold);
-            }
-        } else if (!rightHand.isPinching && rightPinchStart.current) {
-            // Released - check if should dismiss
-            if (isInDismissZone) {
-                setIsDismissing(true);
-                setTimeout(() => {
-                    onClose();
-                    setIsDismissing(false);
-                    setIsInDismissZone(false);
-                }, 400);
+    // Keep the zoomed image within the stage (left 75% of the screen), or within its pane
+    const bounded = (next: ViewTransform) => {
+        if (comparing) {
+            const pane = comparePanes()[0];
+            if (!pane) return next;
+            const size = { width: pane.clientWidth, height: pane.clientHeight };
+            return clampPan(next, size, size);
+        }
+
+        const content = contentRef.current;
+        if (!content) return next;
+        return clampPan(
+            next,
+            { width: content.offsetWidth, height: content.offsetHeight },
+            { width: window.innerWidth * 0.75, height: window.innerHeight },
+        );
+    };
+
+    // Transforms apply around the center of the stage, or of the comparison pane under the point
+    const centerFor = (point: Point) => {
+        if (!comparing) return stageCenter();
+        const panes = comparePanes();
+        const pane = panes.find(element => isInside(point, element.getBoundingClientRect())) ?? panes[0];
+        if (!pane) return stageCenter();
+        const rect = pane.getBoundingClientRect();
+        return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    };
+
+    const moveDivider = (position: Point) => {
+        const rect = contentRef.current?.getBoundingClientRect();
+        if (rect && rect.width > 0) {
+            setDivider(Math.max(0, Math.min(1, (position.x - rect.left) / rect.width)));
+        }
+    };
+
+    const startTwoHanded = () => {
+        const { Left, Right } = pinchPoints.current;
+        if (!Left || !Right) return;
+        // While comparing, both hands transform the panes' content like a single pinch does
+        const mid = { x: (Left.x + Right.x) / 2, y: (Left.y + Right.y) / 2 };
+        twoHanded.current = { start: activeView, from: [Left, Right], center: centerFor(mid) };
+        viewPinch.current = null;
+        dragPinchStart.current = null;
+        setIsDragging(false);
+        setIsInDismissZone(false);
+        setIsTwoHanded(true);
+    };
+
+    // Each hand's pinch does what it is bound to: by default the right hand drags
+    // the image and the left hand zooms or pans, or scrubs videos and GIFs on
+    // the playback bar. Pinching with both hands zooms and rotates. Only the
+    // pinches ImageStage routed here arrive.
+    usePinchEvent(pinches, image.id, 'pinchStart', ({ hand, position }) => {
+        pinchPoints.current[hand] = position;
+        const action = actions.pinchAction(hand);
+        if (isDismissing || hidden || action === 'none') return;
+
+        if (action !== 'drag') {
+            if (action === 'zoomPan' && isFront && hasPlayback && position.y > window.innerHeight * SCRUB_BAND_TOP) {
+                if (isVideo) {
+                    resumeAfterScrub.current = playback.playing;
+                    videoElement?.pause();
+                } else {
+                    resumeAfterScrub.current = gifPlayback.playing;
+                    gifPlayback.pause();
+                }
+                setIsScrubbing(true);
+            } else if (dragPinchStart.current || viewPinch.current) {
+                startTwoHanded();
             } else {
-                // Snap back to center
-                setPan({ x: 0, y: 0 });
+                viewPinch.current = { anchor: position, mode: action === 'zoomPan' ? null : action };
+                onFocus();
             }
-            rightPinchStart.current = null;
-            setIsDraggingWithRight(false);
-            setIsInDismissZone(false);
+            return;
         }
-    }, [rightHand, image, isInDismissZone, isDismissing, onClose]);
 
-    // Handle zoom and pan with left hand
-    useEffect(() => {
-        if (!image || !leftHand || isDraggingWithRight) return;
+        // Only track if pinch is in main view area (left 75%)
+        if (position.x < window.innerWidth * 0.75) {
+            if (comparing) {
+                // Right hand moves the divider while comparing
+                setIsMovingDivider(true);
+                moveDivider(position);
+                return;
+            }
+            if (viewPinch.current || dragPinchStart.current) {
+                startTwoHanded();
+                return;
+            }
+            onFocus();
+            dragPinchStart.current = position;
+            dragStartView.current = view;
+            setIsDragging(true);
+        }
+    });
 
-        const pinchY = leftHand.pinchPosition.y * window.innerHeight;
-        const pinchX = (1 - leftHand.pinchPosition.x) * window.innerWidth;
+    usePinchEvent(pinches, image.id, 'pinchMove', ({ hand, position, delta }) => {
+        pinchPoints.current[hand] = position;
+        const dragging = actions.pinchAction(hand) === 'drag';
 
-        if (leftHand.isPinching) {
-            if (!isPinching.current) {
-                lastPinchY.current = pinchY;
-                lastPinchX.current = pinchX;
-                isPinching.current = true;
+        if (twoHanded.current) {
+            const { Left, Right } = pinchPoints.current;
+            if (Left && Right) {
+                const { start, from, center } = twoHanded.current;
+                setActiveView(bounded(manipulate(start, from, [Left, Right], center)));
+            }
+        } else if (dragging && isMovingDivider) {
+            moveDivider(position);
+        } else if (dragging && dragPinchStart.current) {
+            // Calculate new position based on hand movement
+            setView({
+                ...dragStartView.current,
+                x: dragStartView.current.x + position.x - dragPinchStart.current.x,
+                y: dragStartView.current.y + position.y - dragPinchStart.current.y,
+            });
+
+            // Check if in dismiss zone (bottom 15% of screen)
+            const dismissThreshold = window.innerHeight * 0.85;
+            setIsInDismissZone(position.y > dismissThreshold);
+        } else if (!dragging && isScrubbing) {
+            if (isVideo) {
+                playback.seekBy((delta.x / SCRUB_FULL_WIDTH) * playback.duration);
             } else {
-                const deltaY = pinchY - lastPinchY.current;
-                const deltaX = pinchX - lastPinchX.current;
+                gifPlayback.scrubBy(delta.x / SCRUB_FULL_WIDTH);
+            }
+        } else if (!dragging && viewPinch.current) {
+            const pinch = viewPinch.current;
 
-                if (Math.abs(deltaY) > Math.abs(deltaX) * 0.5) {
-                    const zoomDelta = -deltaY * 0.008;
-                    setZoom(prev => Math.max(0.5, Math.min(4, prev + zoomDelta)));
-                }
+            // The first movement decides: up/down zooms, sideways grabs and pans
+            if (!pinch.mode) {
+                const dx = position.x - pinch.anchor.x;
+                const dy = position.y - pinch.anchor.y;
+                if (Math.hypot(dx, dy) < MODE_LOCK_DISTANCE) return;
+                pinch.mode = Math.abs(dy) > Math.abs(dx) ? 'zoom' : 'pan';
+            }
 
-                if (Math.abs(deltaX) > 5) {
-                    setPan(prev => ({
-                        x: Math.max(-300, Math.min(300, prev.x + deltaX * 0.5)),
-                        y: prev.y
-                    }));
-                }
+            if (pinch.mode === 'zoom') {
+                const center = centerFor(pinch.anchor);
+                setActiveView(prev => bounded(zoomAround(prev, pinch.anchor, center, prev.scale - delta.y * ZOOM_SPEED)));
+            } else {
+                setActiveView(prev => bounded({ ...prev, x: prev.x + delta.x, y: prev.y + delta.y }));
+            }
+        }
+    });
+
+    usePinchEvent(pinches, image.id, 'pinchEnd', ({ hand, lost }) => {
+        pinchPoints.current[hand] = null;
 
-                lastPinchY.current = pinchY;
-                lastPinchX.current = pinchX;
+        // Releasing either hand ends the two-handed gesture; the other hand's
+        // pinch is ignored until it is released too
+        if (twoHanded.current) {
+            twoHanded.current = null;
+            setIsTwoHanded(false);
+            return;
+        }
+        const action = actions.pinchAction(hand);
+        if (action === 'none') return;
+        if (action !== 'drag') {
+            viewPinch.current = null;
+            if (isScrubbing) {
+                setIsScrubbing(false);
+                if (resumeAfterScrub.current) {
+                    if (isVideo) playback.togglePlay(); else gifPlayback.togglePlay();
+                }
             }
+            return;
+        }
+        if (isMovingDivider) {
+            setIsMovingDivider(false);
+            return;
+        }
+        if (!dragPinchStart.current) return;
+
+        // Released - check if should dismiss
+        if (isInDismissZone && !lost) {
+            setIsDismissing(true);
+            setTimeout(() => {
+                onClose();
+                setIsDismissing(false);
+                setIsInDismissZone(false);
+            }, 400);
         } else {
-            isPinching.current = false;
+            // Stay where dropped, pulled back inside the stage if needed
+            setView(prev => bounded(prev));
         }
-    }, [leftHand, image, isDraggingWithRight]);
+        dragPinchStart.current = null;
+        setIsDragging(false);
+        setIsInDismissZone(false);
+    });
+
+    // Left thumbs up by default: play/pause. Left thumbs down: mute for videos,
+    // next frame for GIFs. Only the front image reacts.
+    useGestureAction(actions, 'playPause', () => {
+        if (!isFront) return;
+        if (isVideo) playback.togglePlay();
+        else if (gifPlayback.ready) gifPlayback.togglePlay();
+    });
+
+    useGestureAction(actions, 'muteOrStep', () => {
+        if (!isFront) return;
+        if (isVideo) playback.toggleMute();
+        else if (gifPlayback.ready) gifPlayback.step(1);
+    });
+
+    // Closes the front image the same way as dropping it in the dismiss zone
+    useGestureAction(actions, 'dismiss', () => {
+        if (!isFront || hidden || isDismissing) return;
+        setIsDismissing(true);
+        setTimeout(() => {
+            onClose();
+            setIsDismissing(false);
+        }, 400);
+    });
 
-    // Reset when image changes
+    // Each comparison starts unzoomed with the divider centered
     useEffect(() => {
-        setZoom(1);
-        setPan({ x: 0, y: 0 });
-        setIsDraggingWithRight(false);
-        setIsInDismissZone(false);
-        setIsDismissing(false);
-        rightPinchStart.current = null;
-    }, [image?.id]);
+        setCompareView(IDENTITY_VIEW);
+        setDivider(0.5);
+        setIsMovingDivider(false);
+    }, [comparison?.before.id]);
+
+    // Playback hints follow the gesture bindings; unbound actions are left out
+    const playPauseHint = gestureHint(actions.bindings, 'playPause');
+    const muteOrStepHint = gestureHint(actions.bindings, 'muteOrStep');
+    const playbackHints = [
+        playPauseHint && `${playPauseHint} Play/Pause`,
+        muteOrStepHint && `${muteOrStepHint} ${isVideo ? 'Mute' : 'Next frame'}`,
+        (actions.pinchAction('Left') === 'zoomPan' || actions.pinchAction('Right') === 'zoomPan') && '🤏 Bar: Scrub',
+    ].filter(Boolean);
 
-    if (!image) return null;
+    // Comparison panes size the media; on its own it sizes itself
+    const mediaClass = comparing ? 'w-full h-full object-contain' : 'max-w-full max-h-[70vh] object-contain';
+    const media = isVideo ? (
+        <video
+            ref={setVideoElement}
+            src={image.src}
+            aria-label={image.alt}
+            className={mediaClass}
+            autoPlay
+            loop
+            muted
+            playsInline
+        />
+    ) : gifPlayback.ready ? (
+        <canvas
+            ref={setCanvasElement}
+            role="img"
+            aria-label={image.alt}
+            className={`block ${mediaClass}`}
+        />
+    ) : (
+        <img
+            src={image.src}
+            alt={image.alt}
+            className={mediaClass}
+            draggable={false}
+        />
+    );
+
+    // While comparing, the frame stays centered and zoom/pan happen inside the panes
+    const placement = comparing ? IDENTITY_VIEW : view;
 
     return (
-        <AnimatePresence>
+        <motion.div
+            className="absolute inset-0 flex items-center justify-center pointer-events-none"
+            style={{ zIndex }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: hidden ? 0 : 1 }}
+            exit={{ opacity: 0 }}
+        >
+            {/* Dismiss zone glow at bottom */}
             <motion.div
-                className="absolute inset-0 right-[25%] flex items-center justify-center z-10"
+                className="absolute bottom-0 left-0 right-0 h-32 pointer-events-none"
                 initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
+                animate={{
+                    opacity: isDragging ? (isInDismissZone ? 1 : 0.3) : 0,
+                }}
+                transition={{ duration: 0.2 }}
             >
-                {/* Dismiss zone glow at bottom */}
-                <motion.div
-                    className="absolute bottom-0 left-0 right-0 h-32 pointer-events-none"
-                    initial={{ opacity: 0 }}
-                    animate={{
-                        opacity: isDraggingWithRight ? (isInDismissZone ? 1 : 0.3) : 0,
+                <div
+                    className="w-full h-full"
+                    style={{
+                        background: isInDismissZone
+                            ? 'linear-gradient(to top, rgba(239, 68, 68, 0.8) 0%, rgba(239, 68, 68, 0.4) 40%, transparent 100%)'
+                            : 'linear-gradient(to top, rgba(239, 68, 68, 0.3) 0%, transparent 100%)',
                     }}
-                    transition={{ duration: 0.2 }}
-                >
-                    <div
-                        className="w-full h-full"
-                        style={{
-                            background: isInDismissZone
-                                ? 'linear-gradient(to top, rgba(239, 68, 68, 0.8) 0%, rgba(239, 68, 68, 0.4) 40%, transparent 100%)'
-                                : 'linear-gradient(to top, rgba(239, 68, 68, 0.3) 0%, transparent 100%)',
-                        }}
-                    />
-                    <motion.div
-                        className="absolute bottom-4 left-1/2 -translate-x-1/2"
-                        animate={{
-                            scale: isInDismissZone ? [1, 1.1, 1] : 1,
-                            opacity: isDraggingWithRight ? 1 : 0,
-                        }}
-                        transition={{
-                            scale: { repeat: Infinity, duration: 0.6 },
-                            opacity: { duration: 0.2 }
-                        }}
-                    >
-                        <span className={`text-sm font-medium ${isInDismissZone ? 'text-red-400' : 'text-white/60'}`}>
-                            {isInDismissZone ? 'Release to dismiss' : 'Drag here to dismiss'}
-                        </span>
-                    </motion.div>
-                </motion.div>
-
-                {/* Image container */}
+                />
                 <motion.div
-                    className="relative max-w-[70%] max-h-[80%]"
-                    initial={initialPosition ? {
-                        x: initialPosition.x - window.innerWidth * 0.375,
-                        y: initialPosition.y - window.innerHeight * 0.5,
-                        scale: 0.3,
-                        opacity: 0,
-                    } : { scale: 0.8, opacity: 0 }}
-                    animate={isDismissing ? {
-                        y: window.innerHeight,
-                        scale: 0.5,
-                        opacity: 0,
-                        rotate: 10,
-                    } : {
-                        x: pan.x,
-                        y: pan.y,
-                        scale: isDraggingWithRight ? zoom * 0.95 : zoom,
-                        opacity: isInDismissZone ? 0.6 : 1,
-                        rotate: isInDismissZone ? 5 : 0,
+                    className="absolute bottom-4 left-1/2 -translate-x-1/2"
+                    animate={{
+                        scale: isInDismissZone ? [1, 1.1, 1] : 1,
+                        opacity: isDragging ? 1 : 0,
                     }}
-                    exit={{ scale: 0.8, opacity: 0 }}
                     transition={{
-                        type: isDismissing ? 'tween' : 'spring',
-                        stiffness: 200,
-                        damping: 25,
-                        duration: isDismissing ? 0.4 : undefined,
+                        scale: { repeat: Infinity, duration: 0.6 },
+                        opacity: { duration: 0.2 }
                     }}
                 >
-                    <div className={`rounded-2xl overflow-hidden shadow-2xl ring-1 ${isInDismissZone ? 'ring-red-500/60' : 'ring-white/20'} transition-all duration-200`}>
-                        <img
-                            src={image.src}
-                            alt={image.title}
-                            className="max-w-full max-h-[70vh] object-contain"
-                            draggable={false}
-                        />
-                    </div>
-
-                    {/* Image title */}
-                    <motion.div
-                        className="absolute -bottom-12 left-1/2 -translate-x-1/2 whitespace-nowrap"
-                        initial={{ opacity: 0, y: -10 }}
-                        animate={{ opacity: isDraggingWithRight ? 0 : 1, y: 0 }}
-                        transition={{ delay: 0.3 }}
-                    >
-                        <div className="bg-black/40 backdrop-blur-sm rounded-full px-4 py-1.5 border border-white/10">
-                            <span className="text-white/90 text-sm font-medium">{image.title}</span>
-                        </div>
-                    </motion.div>
+                    <span className={`text-sm font-medium ${isInDismissZone ? 'text-red-400' : 'text-white/60'}`}>
+                        {isInDismissZone ? 'Release to dismiss' : 'Drag here to dismiss'}
+                    </span>
                 </motion.div>
+            </motion.div>
 
-                {/* Zoom indicator */}
+            {/* Image container */}
+            <motion.div
+                data-stage-id={image.id}
+                className={`relative max-w-[70%] max-h-[80%] ${hidden ? '' : 'pointer-events-auto'}`}
+                initial={initialPosition ? {
+                    x: initialPosition.x - window.innerWidth * 0.375,
+                    y: initialPosition.y - window.innerHeight * 0.5,
+                    scale: 0.3,
+                    opacity: 0,
+                } : { scale: 0.8, opacity: 0 }}
+                animate={isDismissing ? {
+                    y: window.innerHeight,
+                    scale: 0.5,
+                    opacity: 0,
+                    rotate: 10,
+                } : {
+                    x: placement.x,
+                    y: placement.y,
+                    scale: isDragging ? placement.scale * 0.95 : placement.scale,
+                    opacity: isInDismissZone ? 0.6 : 1,
+                    rotate: placement.rotation + (isInDismissZone ? 5 : 0),
+                }}
+                exit={{ scale: 0.8, opacity: 0 }}
+                transition={{
+                    type: isDismissing ? 'tween' : 'spring',
+                    stiffness: 200,
+                    damping: 25,
+                    duration: isDismissing ? 0.4 : undefined,
+                }}
+            >
+                <div ref={contentRef} className={`rounded-2xl overflow-hidden shadow-2xl ring-1 ${isInDismissZone ? 'ring-red-500/60' : 'ring-white/20'} transition-all duration-200`}>
+                    {comparison ? (
+                        <ComparisonFrame
+                            before={comparison.before}
+                            after={image}
+                            layout={comparison.layout}
+                            divider={divider}
+                            view={compareView}
+                            isMovingDivider={isMovingDivider}
+                        >
+                            {media}
+                        </ComparisonFrame>
+                    ) : media}
+                </div>
+
+                {/* Image title */}
                 <motion.div
-                    className="absolute bottom-8 left-1/2 -translate-x-1/2"
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: isDraggingWithRight ? 0 : 1 }}
-                    transition={{ delay: 0.5 }}
+                    className="absolute -bottom-12 left-1/2 -translate-x-1/2 whitespace-nowrap"
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: isDragging || comparing ? 0 : 1, y: 0 }}
+                    transition={{ delay: 0.3 }}
                 >
-                    <div className="bg-black/40 backdrop-blur-sm rounded-full px-4 py-2 border border-white/10 flex items-center gap-3">
-                        <span className="text-white/60 text-xs">Zoom</span>
-                        <div className="w-24 h-1 bg-white/20 rounded-full overflow-hidden">
-                            <motion.div
-                                className="h-full bg-white/60 rounded-full"
-                                animate={{ width: `${((zoom - 0.5) / 3.5) * 100}%` }}
-                            />
-                        </div>
-                        <span className="text-white/80 text-xs font-mono w-10">{zoom.toFixed(1)}x</span>
+                    <div className="bg-black/40 backdrop-blur-sm rounded-full px-4 py-1.5 border border-white/10">
+                        <span className="text-white/90 text-sm font-medium">{image.title}</span>
+                        {image.caption && (
+                            <span className="text-white/50 text-xs ml-2">{image.caption}</span>
+                        )}
                     </div>
                 </motion.div>
+            </motion.div>
 
-                {/* Controls hint */}
-                <motion.div
-                    className="absolute top-8 left-1/2 -translate-x-1/2"
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: isDraggingWithRight ? 0 : 1, y: 0 }}
-                    transition={{ delay: 0.4 }}
-                >
-                    <div className="bg-black/40 backdrop-blur-sm rounded-xl px-4 py-2 border border-white/10">
-                        <div className="flex items-center gap-4 text-xs text-white/60">
-                            <span className="flex items-center gap-1.5">
-                                <span className="w-2 h-2 rounded-full bg-green-400" />
-                                Right hand: Move
-                            </span>
-                            <span className="flex items-center gap-1.5">
-                                <span className="w-2 h-2 rounded-full bg-blue-400" />
-                                Left hand: Zoom & Pan
+            {/* Video / GIF playback */}
+            {isVideo && (
+                <PlaybackBar
+                    isVisible={isFront && !isDragging}
+                    playing={playback.playing}
+                    muted={playback.muted}
+                    progress={playback.duration ? playback.currentTime / playback.duration : 0}
+                    label={`${formatPlaybackTime(playback.currentTime)} / ${formatPlaybackTime(playback.duration)}`}
+                    isScrubbing={isScrubbing}
+                />
+            )}
+            {!isVideo && gifPlayback.ready && (
+                <PlaybackBar
+                    isVisible={isFront && !isDragging}
+                    playing={gifPlayback.playing}
+                    progress={gifPlayback.frameCount > 1 ? gifPlayback.frameIndex / (gifPlayback.frameCount - 1) : 0}
+                    label={`${gifPlayback.frameIndex + 1} / ${gifPlayback.frameCount}`}
+                    isScrubbing={isScrubbing}
+                />
+            )}
+
+            {/* Zoom indicator, for the front image only */}
+            <motion.div
+                className="absolute bottom-8 left-1/2 -translate-x-1/2"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: isDragging || !isFront ? 0 : 1 }}
+                transition={{ delay: 0.5 }}
+            >
+                <div className="bg-black/40 backdrop-blur-sm rounded-full px-4 py-2 border border-white/10 flex items-center gap-3">
+                    <span className="text-white/60 text-xs">Zoom</span>
+                    <div className="w-24 h-1 bg-white/20 rounded-full overflow-hidden">
+                        <motion.div
+                            className="h-full bg-white/60 rounded-full"
+                            animate={{ width: `${((activeView.scale - MIN_ZOOM) / (MAX_ZOOM - MIN_ZOOM)) * 100}%` }}
+                        />
+                    </div>
+                    <span className="text-white/80 text-xs font-mono w-10">{activeView.scale.toFixed(1)}x</span>
+                    {activeView.rotation !== 0 && (
+                        <span className="text-white/60 text-xs font-mono">{Math.round(activeView.rotation)}°</span>
+                    )}
+                </div>
+            </motion.div>
+
+            {/* Controls hint */}
+            <motion.div
+                className="absolute top-8 left-1/2 -translate-x-1/2"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: isDragging || !isFront ? 0 : 1, y: 0 }}
+                transition={{ delay: 0.4 }}
+            >
+                <div className="bg-black/40 backdrop-blur-sm rounded-xl px-4 py-2 border border-white/10">
+                    <div className="flex items-center gap-4 text-xs text-white/60">
+                        {(['Right', 'Left'] as const).map(hand => {
+                            const action = actions.pinchAction(hand);
+                            if (action === 'none') return null;
+                            return (
+                                <span key={hand} className="flex items-center gap-1.5">
+                                    <span className={`w-2 h-2 rounded-full ${hand === 'Right' ? 'bg-green-400' : 'bg-blue-400'}`} />
+                                    {hand} hand: {comparing && action === 'drag' ? 'Move divider' : PINCH_ACTIONS[action].short}
+                                </span>
+                            );
+                        })}
+                        {!comparing && (
+                            <span className={`flex items-center gap-1.5 ${isTwoHanded ? 'text-white' : ''}`}>
+                                <span className="w-2 h-2 rounded-full bg-purple-400" />
+                                Both hands: Zoom & Rotate
                             </span>
-                        </div>
+                        )}
+                        {hasPlayback && (
+                            <span>{playbackHints.join(' · ')}</span>
+                        )}
                     </div>
-                </motion.div>
+                </div>
             </motion.div>
-        </AnimatePresence>
+        </motion.div>
     );
 }
@@ -0,0 +1,37 @@
+"use client";
+
+import type { GalleryImage } from '@/lib/gallery/types';
+
+interface MediaThumbnailProps {
+    image: GalleryImage;
+    className?: string;
+    lazy?: boolean;
+}
+
+// Still preview of a gallery item; videos show their first frame
+export default function MediaThumbnail({ image, className, lazy = false }: MediaThumbnailProps) {
+    if (image.mediaType === 'video') {
+        return (
+            <div className={`relative ${className ?? ''}`}>
+                <video
+                    src={`${image.src}#t=0.1`}
+                    className="w-full h-full object-cover"
+                    preload="metadata"
+                    muted
+                    playsInline
+                    aria-label={image.alt}
+                />
+                <span className="absolute top-1.5 right-1.5 bg-black/60 rounded px-1 text-[9px] text-white/90">▶</span>
+            </div>
+        );
+    }
+
+    return (
+        <img
+            src={image.src}
+            alt={image.alt}
+            className={className}
+            loading={lazy ? 'lazy' : undefined}
+        />
+    );
+}
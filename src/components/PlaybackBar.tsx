@@ -0,0 +1,45 @@
+"use client";
+
+import { motion } from 'framer-motion';
+
+interface PlaybackBarProps {
+    isVisible: boolean;
+    playing: boolean;
+    // 0-1
+    progress: number;
+    label: string;
+    isScrubbing: boolean;
+    // Omitted for media without sound
+    muted?: boolean;
+}
+
+export function formatPlaybackTime(seconds: number) {
+    const whole = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+}
+
+export default function PlaybackBar({ isVisible, playing, progress, label, isScrubbing, muted }: PlaybackBarProps) {
+    return (
+        <motion.div
+            className="absolute bottom-20 left-1/2 -translate-x-1/2 w-[min(480px,70%)]"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: isVisible ? 1 : 0 }}
+            transition={{ delay: 0.5 }}
+        >
+            <div className={`bg-black/40 backdrop-blur-sm rounded-full px-4 py-2 border flex items-center gap-3 transition-colors ${isScrubbing ? 'border-blue-400/60' : 'border-white/10'}`}>
+                <span className="text-white/80 text-xs w-4 text-center">{playing ? '❚❚' : '▶'}</span>
+                <div className="flex-1 h-1 bg-white/20 rounded-full overflow-hidden">
+                    <motion.div
+                        className={`h-full rounded-full ${isScrubbing ? 'bg-blue-400' : 'bg-white/60'}`}
+                        animate={{ width: `${Math.max(0, Math.min(1, progress)) * 100}%` }}
+                        transition={{ duration: isScrubbing ? 0 : 0.2 }}
+                    />
+                </div>
+                <span className="text-white/80 text-xs font-mono whitespace-nowrap">{label}</span>
+                {muted !== undefined && (
+                    <span className="text-white/60 text-xs">{muted ? '🔇' : '🔊'}</span>
+                )}
+            </div>
+        </motion.div>
+    );
+}
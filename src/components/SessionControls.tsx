@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { downloadSession, parseSession, type RecordedSession } from '@/lib/tracking/session';
+import type { ReplayMode, ReplayProvider } from '@/lib/tracking/replayProvider';
+import type { OneEuroOptions } from '@/lib/tracking/oneEuroFilter';
+
+interface SessionControlsProps {
+    isVisible: boolean;
+    isRecording: boolean;
+    entryCount: number;
+    onStartRecording: () => void;
+    onStopRecording: () => RecordedSession;
+    replay: ReplayProvider | null;
+    onLoadSession: (session: RecordedSession, mode: ReplayMode) => void;
+    onExitReplay: () => void;
+    // Null while smoothing is switched off with `f`
+    smoothing: OneEuroOptions | null;
+    onSmoothingChange: (smoothing: OneEuroOptions) => void;
+}
+
+const buttonClass = 'px-2.5 py-1 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-white/80 text-xs transition-colors';
+
+export default function SessionControls({
+    isVisible,
+    isRecording,
+    entryCount,
+    onStartRecording,
+    onStopRecording,
+    replay,
+    onLoadSession,
+    onExitReplay,
+    smoothing,
+    onSmoothingChange,
+}: SessionControlsProps) {
+    const [format, setFormat] = useState<'json' | 'ndjson'>('json');
+    const [stepMode, setStepMode] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [, setReplayVersion] = useState(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Re-render when the replay pauses, resumes or advances
+    useEffect(() => {
+        if (!replay) return;
+        return replay.subscribe(() => setReplayVersion(v => v + 1));
+    }, [replay]);
+
+    const handleStop = () => {
+        const session = onStopRecording();
+        if (session.entries.length > 0) {
+            downloadSession(session, format);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            onLoadSession(parseSession(await file.text()), stepMode ? 'step' : 'realtime');
+            setLoadError(null);
+        } catch (err) {
+            setLoadError((err as Error).message);
+        }
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    return (
+        <AnimatePresence>
+            {isVisible && (
+                <motion.div
+                    className="fixed bottom-6 left-6 z-50 pointer-events-auto"
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 20 }}
+                >
+                    <div className="bg-black/60 backdrop-blur-md rounded-xl px-4 py-3 border border-white/10 flex flex-col gap-3 w-72">
+                        <div className="flex items-center justify-between">
+                            <span className="text-white/90 text-sm font-medium">Session</span>
+                            {isRecording && (
+                                <span className="flex items-center gap-1.5 text-xs text-red-400">
+                                    <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                                    {entryCount} frames
+                                </span>
+                            )}
+                        </div>
+
+                        {/* Recording */}
+                        <div className="flex items-center gap-2">
+                            {isRecording ? (
+                                <button className={buttonClass} onClick={handleStop}>Stop & save</button>
+                            ) : (
+                                <button className={buttonClass} onClick={onStartRecording} disabled={!!replay}>Record</button>
+                            )}
+                            <select
+                                className="bg-white/10 border border-white/10 rounded-lg text-white/80 text-xs px-1.5 py-1"
+                                value={format}
+                                onChange={e => setFormat(e.target.value as 'json' | 'ndjson')}
+                            >
+                                <option value="json">JSON</option>
+                                <option value="ndjson">NDJSON</option>
+                            </select>
+                        </div>
+
+                        {/* Replay */}
+                        {replay ? (
+                            <div className="flex flex-col gap-2">
+                                <div className="flex items-center gap-2">
+                                    <button className={buttonClass} onClick={() => (replay.paused ? replay.resume() : replay.pause())}>
+                                        {replay.paused ? 'Play' : 'Pause'}
+                                    </button>
+                                    <button className={buttonClass} onClick={() => replay.step()} disabled={!replay.paused}>
+                                        Step
+                                    </button>
+                                    <button className={buttonClass} onClick={onExitReplay}>Live</button>
+                                </div>
+                                <span className="text-white/50 text-xs font-mono">
+                                    frame {replay.position.index} / {replay.position.total}
+                                </span>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <button className={buttonClass} onClick={() => fileInputRef.current?.click()} disabled={isRecording}>
+                                    Replay file…
+                                </button>
+                                <label className="flex items-center gap-1.5 text-xs text-white/60">
+                                    <input type="checkbox" checked={stepMode} onChange={e => setStepMode(e.target.checked)} />
+                                    Step
+                                </label>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".json,.ndjson,application/json"
+                                    className="hidden"
+                                    onChange={e => handleFile(e.target.files?.[0])}
+                                />
+                            </div>
+                        )}
+
+                        {loadError && <p className="text-red-400 text-xs">{loadError}</p>}
+
+                        {/* One Euro smoothing */}
+                        {smoothing ? (
+                            <div className="flex flex-col gap-1.5 text-xs text-white/60">
+                                <label className="flex items-center gap-2">
+                                    <span className="w-16">Min cutoff</span>
+                                    <input
+                                        type="range"
+                                        className="flex-1"
+                                        min={0.1}
+                                        max={5}
+                                        step={0.1}
+                                        value={smoothing.minCutoff}
+                                        onChange={e => onSmoothingChange({ ...smoothing, minCutoff: Number(e.target.value) })}
+                                    />
+                                    <span className="w-8 text-right font-mono">{smoothing.minCutoff.toFixed(1)}</span>
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <span className="w-16">Beta</span>
+                                    <input
+                                        type="range"
+                                        className="flex-1"
+                                        min={0}
+                                        max={30}
+                                        step={0.5}
+                                        value={smoothing.beta}
+                                        onChange={e => onSmoothingChange({ ...smoothing, beta: Number(e.target.value) })}
+                                    />
+                                    <span className="w-8 text-right font-mono">{smoothing.beta.toFixed(1)}</span>
+                                </label>
+                            </div>
+                        ) : (
+                            <p className="text-white/50 text-xs">Smoothing off · f to turn it on</p>
+                        )}
+
+                        <p className="text-white/40 text-[10px]">` toggle · Space play/pause · . step · f smoothing</p>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
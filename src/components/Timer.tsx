@@ -2,30 +2,72 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import type { RecorderStatus } from '@/hooks/useStageRecorder';
+import { talkTimerPhase, type TalkTimerConfig, type TalkTimerPhase } from '@/lib/talkTimer';
+import { formatElapsed, stopwatchElapsed, type Stopwatch } from '@/lib/stopwatch';
 
 interface TimerProps {
     isVisible: boolean;
+    talk: {
+        config: TalkTimerConfig;
+        stopwatch: Stopwatch;
+    };
+    // The stage recorder's state and recorded time
+    recording: {
+        status: RecorderStatus;
+        stopwatch: Stopwatch;
+        error?: string | null;
+    };
+    // Clicking the timer while idle starts a recording (a click may open screen capture, a gesture may not)
+    onStartRecording?: () => void;
+    // Why the presentation script could not be loaded
+    scriptError?: string | null;
 }
 
-export default function Timer({ isVisible }: TimerProps) {
-    const [seconds, setSeconds] = useState(0);
+const PHASE_CLASSES: Record<TalkTimerPhase, { text: string; bar: string }> = {
+    normal: { text: 'text-white', bar: 'bg-white/60' },
+    warning: { text: 'text-amber-300', bar: 'bg-amber-400' },
+    critical: { text: 'text-red-400', bar: 'bg-red-500' },
+    overtime: { text: 'text-red-500 animate-pulse', bar: 'bg-red-500' },
+};
 
-    useEffect(() => {
-        if (!isVisible) return;
+const TALK_TIMER_HELP = 'Talk timer: t pause · T reset · m count up/down\n'
+    + 'Set it in the URL, in minutes: ?talk=30&warn=5,1 (amber, red), add &countdown to count down';
+
+const RECORDING_DOT_CLASSES: Record<RecorderStatus, string> = {
+    idle: '',
+    starting: 'bg-red-500/50 animate-pulse',
+    recording: 'bg-red-500 animate-pulse',
+    paused: 'bg-amber-400',
+};
+
+function isRunning(stopwatch: Stopwatch) {
+    return stopwatch.startedAt !== null && stopwatch.pausedAt === null;
+}
+
+export default function Timer({ isVisible, talk, recording, onStartRecording, scriptError }: TimerProps) {
+    const [now, setNow] = useState(() => performance.now());
+    const ticking = isRunning(talk.stopwatch) || isRunning(recording.stopwatch);
 
-        const interval = setInterval(() => {
-            setSeconds(prev => prev + 1);
-        }, 1000);
+    // Re-render while anything runs; the times themselves come from timestamps
+    useEffect(() => {
+        if (!isVisible || !ticking) return;
 
+        setNow(performance.now());
+        const interval = setInterval(() => setNow(performance.now()), 250);
         return () => clearInterval(interval);
-    }, [isVisible]);
+    }, [isVisible, ticking]);
 
-    const minutes = Math.floor(seconds / 60) % 10; // Single digit minutes
-    const secs = seconds % 60;
+    const { config } = talk;
+    const elapsed = stopwatchElapsed(talk.stopwatch, now);
+    const remaining = config.durationMs - elapsed;
+    const phase = talkTimerPhase(elapsed, config);
+    const classes = PHASE_CLASSES[phase];
+    const paused = talk.stopwatch.pausedAt !== null;
 
-    const formatTime = () => {
-        return `${minutes}:${secs.toString().padStart(2, '0')}`;
-    };
+    const display = config.mode === 'countdown'
+        ? (remaining < 0 ? `+${formatElapsed(-remaining)}` : formatElapsed(remaining))
+        : formatElapsed(elapsed);
 
     return (
         <motion.div
@@ -34,14 +76,46 @@ export default function Timer({ isVisible }: TimerProps) {
             animate={{ opacity: isVisible ? 1 : 0, y: isVisible ? 0 : -20 }}
             transition={{ duration: 0.5, delay: 0.3 }}
         >
-            <div className="bg-black/40 backdrop-blur-md rounded-xl px-4 py-2 border border-white/10">
+            <div
+                className={`bg-black/40 backdrop-blur-md rounded-xl px-4 py-2 border border-white/10 ${recording.status === 'idle' && onStartRecording ? 'cursor-pointer hover:bg-black/60' : ''}`}
+                title={recording.status === 'idle' ? `${TALK_TIMER_HELP}\nClick or press R to start recording` : TALK_TIMER_HELP}
+                onClick={recording.status === 'idle' ? onStartRecording : undefined}
+            >
                 <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
-                    <span className="text-white font-mono text-xl tracking-wider">
-                        {formatTime()}
+                    {recording.status !== 'idle' && (
+                        <div className={`w-2 h-2 rounded-full ${RECORDING_DOT_CLASSES[recording.status]}`} />
+                    )}
+                    <span className={`font-mono text-xl tracking-wider ${classes.text} ${paused ? 'opacity-60' : ''}`}>
+                        {display}
                     </span>
+                    {paused && <span className="text-white/60 text-xs">❚❚</span>}
+                    {config.mode === 'countdown' && (
+                        <span className="text-white/40 text-[10px] uppercase tracking-wide">left</span>
+                    )}
+                </div>
+                <div className="mt-1.5 h-0.5 bg-white/10 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full rounded-full ${classes.bar}`}
+                        style={{ width: `${config.durationMs > 0 ? Math.min(1, elapsed / config.durationMs) * 100 : 0}%` }}
+                    />
                 </div>
+                {recording.status !== 'idle' && (
+                    <p className="mt-1 text-[10px] font-mono text-white/50">
+                        REC {formatElapsed(stopwatchElapsed(recording.stopwatch, now))}
+                        {recording.status === 'paused' && ' · paused'}
+                    </p>
+                )}
             </div>
+            {recording.error && (
+                <p className="mt-2 max-w-[260px] bg-red-500/20 border border-red-500/30 rounded-lg px-3 py-1.5 text-red-200 text-xs">
+                    {recording.error}
+                </p>
+            )}
+            {scriptError && (
+                <p className="mt-2 max-w-[260px] bg-amber-500/20 border border-amber-500/30 rounded-lg px-3 py-1.5 text-amber-100 text-xs">
+                    {scriptError}
+                </p>
+            )}
         </motion.div>
     );
 }
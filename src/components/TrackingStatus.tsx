@@ -0,0 +1,67 @@
+"use client";
+
+import { motion } from 'framer-motion';
+import type { PerformanceTier } from '@/lib/tracking/performanceGovernor';
+
+interface TrackingStatusProps {
+    isVisible: boolean;
+    isReady: boolean;
+    error: string | null;
+    isSmoothing: boolean;
+    // Tracking provider in use; the pointer provider stands in for hands
+    providerName: string;
+    // Performance tier chosen by the governor, for providers that run a model
+    tier?: PerformanceTier | null;
+    // Shown under the pill, e.g. why the camera is not used
+    notice?: string | null;
+    onRetry: () => void;
+}
+
+export default function TrackingStatus({ isVisible, isReady, error, isSmoothing, providerName, tier, notice, onRetry }: TrackingStatusProps) {
+    return (
+        <motion.div
+            className="fixed top-6 right-[26%] z-30 flex flex-col items-end gap-2"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: isVisible ? 1 : 0 }}
+            transition={{ delay: 0.5 }}
+        >
+            <div className="bg-black/40 backdrop-blur-md rounded-xl px-3 py-1.5 border border-white/10 flex items-center gap-2">
+                <div className={`w-2 h-2 rounded-full ${error ? 'bg-red-500' : isReady ? 'bg-green-400 animate-pulse' : 'bg-yellow-400 animate-pulse'}`} />
+                <span className="text-white/70 text-xs">
+                    {error ? 'Tracking unavailable' : !isReady ? 'Loading...' : providerName === 'pointer' ? 'Mouse & Keyboard' : 'Hands Ready'}
+                </span>
+                {isReady && !error && (
+                    <span className="text-white/40 text-[10px] uppercase tracking-wider">
+                        {isSmoothing ? 'Filtered' : 'Raw'}
+                    </span>
+                )}
+                {isReady && !error && tier && (
+                    <span
+                        className="text-white/40 text-[10px] uppercase tracking-wider"
+                        title={`${tier.modelComplexity ? 'Full' : 'Lite'} model, ${tier.inputWidth ? `${tier.inputWidth}px` : 'full size'}, up to ${tier.maxFps} fps`}
+                    >
+                        {tier.label}
+                    </span>
+                )}
+            </div>
+
+            {notice && !error && (
+                <p className="max-w-xs bg-black/40 backdrop-blur-md rounded-xl px-3 py-2 border border-white/10 text-white/60 text-xs">
+                    {notice}
+                </p>
+            )}
+
+            {error && (
+                <div className="max-w-xs bg-red-950/60 backdrop-blur-md rounded-xl px-3 py-2 border border-red-500/30 flex flex-col gap-2 pointer-events-auto">
+                    <p className="text-red-200/90 text-xs">{error}</p>
+                    <button
+                        className="self-end px-2.5 py-1 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-white/80 text-xs transition-colors"
+                        onClick={onRetry}
+                    >
+                        Retry
+                    </button>
+                </div>
+            )}
+        </motion.div>
+    );
+}
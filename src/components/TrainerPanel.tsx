@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { bindCustomPose, GESTURE_ACTIONS, type GestureAction } from '@/lib/tracking/gestureBindings';
+import type { GestureEngine } from '@/lib/tracking/gestureEngine';
+import type { Handedness } from '@/lib/tracking/types';
+import type { useGestureBindings } from '@/hooks/useGestureBindings';
+import type { usePoseTrainer } from '@/hooks/usePoseTrainer';
+
+interface TrainerPanelProps {
+    isVisible: boolean;
+    trainer: ReturnType<typeof usePoseTrainer>;
+    gestureBindings: ReturnType<typeof useGestureBindings>;
+    gestures: GestureEngine;
+}
+
+const buttonClass = 'px-2.5 py-1 rounded-lg border border-white/10 bg-white/10 hover:bg-white/20 text-white/80 text-xs transition-colors disabled:opacity-40';
+const selectClass = 'w-36 bg-white/10 border border-white/10 rounded-lg text-white/80 text-xs px-1.5 py-1';
+
+/**
+ * Records example poses and binds them to actions. Toggled with `n`.
+ */
+export default function TrainerPanel({ isVisible, trainer, gestureBindings, gestures }: TrainerPanelProps) {
+    const { poses, capture } = trainer;
+    const { bindings, update } = gestureBindings;
+    const [name, setName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Keeps the countdown moving when no tracking frames arrive
+    const [, setTick] = useState(0);
+    const capturing = capture !== null;
+    useEffect(() => {
+        if (!capturing) return;
+        const interval = setInterval(() => setTick(tick => tick + 1), 250);
+        return () => clearInterval(interval);
+    }, [capturing]);
+
+    const poseName = (hand: Handedness) => {
+        const match = gestures.currentPose(hand);
+        return match ? poses.find(pose => pose.id === match.poseId)?.name ?? match.poseId : '—';
+    };
+
+    const handleRecord = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        trainer.record(trimmed);
+        setName('');
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            trainer.importFile(await file.text());
+            setImportError(null);
+        } catch (err) {
+            setImportError((err as Error).message);
+        }
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleRemove = (poseId: string) => {
+        trainer.remove(poseId);
+        update(bindCustomPose(bindings, poseId, 'none'));
+    };
+
+    const secondsLeft = capture ? Math.max(0, Math.ceil((capture.endsAt - performance.now()) / 1000)) : 0;
+
+    return (
+        <AnimatePresence>
+            {isVisible && (
+                <motion.div
+                    className="fixed bottom-6 left-[21rem] z-50 pointer-events-auto"
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 20 }}
+                >
+                    <div className="bg-black/60 backdrop-blur-md rounded-xl px-4 py-3 border border-white/10 flex flex-col gap-3 w-96 max-h-[60vh] overflow-y-auto">
+                        <div className="flex items-center justify-between">
+                            <span className="text-white/90 text-sm font-medium">Gesture trainer</span>
+                            <span className="text-xs text-white/50">
+                                R: {poseName('Right')} · L: {poseName('Left')}
+                            </span>
+                        </div>
+
+                        {capture ? (
+                            <div className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2 text-xs">
+                                {capture.phase === 'countdown' ? (
+                                    <span className="text-amber-200">Show “{capture.name}” in {secondsLeft}…</span>
+                                ) : (
+                                    <span className="flex items-center gap-1.5 text-red-300">
+                                        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                                        Hold it · {capture.samples} samples
+                                    </span>
+                                )}
+                                <button className={buttonClass} onClick={trainer.cancel}>Cancel</button>
+                            </div>
+                        ) : (
+                            <div className="flex gap-2">
+                                <input
+                                    className="flex-1 bg-white/10 border border-white/10 rounded-lg text-white/80 text-xs px-2 py-1 placeholder:text-white/30"
+                                    placeholder="New gesture name"
+                                    value={name}
+                                    onChange={e => setName(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && handleRecord()}
+                                />
+                                <button className={buttonClass} disabled={!name.trim()} onClick={handleRecord}>Record</button>
+                            </div>
+                        )}
+
+                        {poses.length === 0 ? (
+                            <p className="text-white/40 text-xs">No gestures yet. Name one and record it.</p>
+                        ) : (
+                            <div className="flex flex-col gap-1.5 text-xs text-white/60">
+                                {poses.map(pose => (
+                                    <div key={pose.id} className="flex items-center gap-2">
+                                        <span className="flex-1 truncate" title={pose.id}>
+                                            {pose.name} <span className="text-white/30">· {pose.samples.length}</span>
+                                        </span>
+                                        <select
+                                            className={selectClass}
+                                            value={bindings.custom[pose.id] ?? 'none'}
+                                            onChange={e => update(bindCustomPose(bindings, pose.id, e.target.value as GestureAction))}
+                                        >
+                                            {(Object.keys(GESTURE_ACTIONS) as GestureAction[]).map(action => (
+                                                <option key={action} value={action}>{GESTURE_ACTIONS[action].label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            className={buttonClass}
+                                            disabled={capturing}
+                                            title="Record more samples"
+                                            onClick={() => trainer.record(pose.name, pose.id)}
+                                        >
+                                            +
+                                        </button>
+                                        <button className={buttonClass} title="Delete" onClick={() => handleRemove(pose.id)}>✕</button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex gap-2">
+                            <button className={buttonClass} disabled={poses.length === 0} onClick={trainer.exportFile}>Export</button>
+                            <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>Import…</button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={e => handleFile(e.target.files?.[0])}
+                            />
+                        </div>
+
+                        {(trainer.error || importError) && (
+                            <p className="text-red-300 text-xs">{trainer.error ?? importError}</p>
+                        )}
+
+                        <p className="text-white/40 text-[10px]">
+                            n toggle · Record each gesture a few times, at different angles and distances
+                        </p>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useReducer } from 'react';
+import {
+    albumImagesOf,
+    comparisonOf,
+    currentAlbumOf,
+    galleryReducer,
+    initialGalleryState,
+    selectedImageOf,
+    stageImagesOf,
+    type Comparison,
+    type ComparisonLayout,
+    type GalleryState,
+    type StagedImage,
+} from '@/lib/gallery/store';
+import type { GalleryAlbum, GalleryImage } from '@/lib/gallery/types';
+import type { PresentationScript } from '@/lib/presentation/script';
+import type { Point } from '@/lib/screen';
+
+interface GalleryContextValue extends GalleryState {
+    // Front-most image on the stage
+    selectedImage: GalleryImage | null;
+    // Images on the stage, back to front
+    stageImages: StagedImage[];
+    // Set while the two front-most stage images are being compared
+    comparison: Comparison | null;
+    currentAlbum: GalleryAlbum | null;
+    // Images of the current album, in gallery order
+    albumImages: GalleryImage[];
+    select: (image: GalleryImage | null, dropPosition?: Point) => void;
+    bringToFront: (id: string) => void;
+    remove: (id: string) => void;
+    clearStage: () => void;
+    setCompareLayout: (layout: ComparisonLayout | null) => void;
+    loadScript: (script: PresentationScript) => void;
+    endScript: () => void;
+    next: () => void;
+    prev: () => void;
+    back: () => void;
+    selectAlbum: (id: string) => void;
+    nextAlbum: () => void;
+    prevAlbum: () => void;
+}
+
+const GalleryContext = createContext<GalleryContextValue | null>(null);
+
+export function GalleryProvider({ children }: { children: React.ReactNode }) {
+    const [state, dispatch] = useReducer(galleryReducer, initialGalleryState);
+
+    // Built from public/gallery/gallery.json plus any other files in public/gallery
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const response = await fetch('/api/gallery');
+                if (!response.ok) {
+                    throw new Error(`Gallery request failed: ${response.status}`);
+                }
+                const data: { images: GalleryImage[]; albums: GalleryAlbum[] } = await response.json();
+                if (!cancelled) dispatch({ type: 'loaded', images: data.images, albums: data.albums });
+            } catch (err) {
+                console.error('Gallery error:', err);
+                if (!cancelled) dispatch({ type: 'failed', error: err instanceof Error ? err.message : String(err) });
+            }
+        };
+
+        load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const select = useCallback((image: GalleryImage | null, dropPosition?: Point) => {
+        dispatch({ type: 'select', id: image?.id ?? null, dropPosition });
+    }, []);
+    const bringToFront = useCallback((id: string) => dispatch({ type: 'bringToFront', id }), []);
+    const remove = useCallback((id: string) => dispatch({ type: 'remove', id }), []);
+    const clearStage = useCallback(() => dispatch({ type: 'clearStage' }), []);
+    const setCompareLayout = useCallback((layout: ComparisonLayout | null) => dispatch({ type: 'setCompareLayout', layout }), []);
+    const loadScript = useCallback((script: PresentationScript) => dispatch({ type: 'loadScript', script }), []);
+    const endScript = useCallback(() => dispatch({ type: 'endScript' }), []);
+    const next = useCallback(() => dispatch({ type: 'step', offset: 1 }), []);
+    const prev = useCallback(() => dispatch({ type: 'step', offset: -1 }), []);
+    const back = useCallback(() => dispatch({ type: 'back' }), []);
+    const selectAlbum = useCallback((id: string) => dispatch({ type: 'selectAlbum', id }), []);
+    const nextAlbum = useCallback(() => dispatch({ type: 'stepAlbum', offset: 1 }), []);
+    const prevAlbum = useCallback(() => dispatch({ type: 'stepAlbum', offset: -1 }), []);
+
+    const value = useMemo(() => ({
+        ...state,
+        selectedImage: selectedImageOf(state),
+        stageImages: stageImagesOf(state),
+        comparison: comparisonOf(state),
+        currentAlbum: currentAlbumOf(state),
+        albumImages: albumImagesOf(state),
+        select,
+        bringToFront,
+        remove,
+        clearStage,
+        setCompareLayout,
+        loadScript,
+        endScript,
+        next,
+        prev,
+        back,
+        selectAlbum,
+        nextAlbum,
+        prevAlbum,
+    }), [state, select, bringToFront, remove, clearStage, setCompareLayout, loadScript, endScript, next, prev, back, selectAlbum, nextAlbum, prevAlbum]);
+
+    return <GalleryContext.Provider value={value}>{children}</GalleryContext.Provider>;
+}
+
+export function useGallery() {
+    const context = useContext(GalleryContext);
+    if (!context) {
+        throw new Error('useGallery must be used inside <GalleryProvider>');
+    }
+    return context;
+}
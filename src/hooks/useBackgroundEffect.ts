@@ -0,0 +1,139 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    BACKGROUND_EFFECTS,
+    DEFAULT_BACKGROUND,
+    drawCameraFrame,
+    loadBackgroundSettings,
+    needsSegmentation,
+    saveBackgroundSettings,
+    type BackgroundSettings,
+} from '@/lib/media/background';
+import { createSelfieSegmenter, type SelfieSegmenter } from '@/lib/media/selfieSegmenter';
+
+export type SegmentationStatus = 'off' | 'loading' | 'ready' | 'error';
+
+/**
+ * Draws the mirrored camera into `canvasRef` with the chosen background effect.
+ * The segmentation model loads the first time an effect needs it and stays
+ * loaded; settings are remembered in localStorage.
+ */
+export function useBackgroundEffect(
+    videoRef: React.RefObject<HTMLVideoElement | null>,
+    canvasRef: React.RefObject<HTMLCanvasElement | null>,
+    isActive: boolean
+) {
+    const [settings, setSettings] = useState<BackgroundSettings>(() =>
+        typeof window === 'undefined' ? DEFAULT_BACKGROUND : loadBackgroundSettings()
+    );
+    const [segmentation, setSegmentation] = useState<SegmentationStatus>('off');
+    const [segmentationError, setSegmentationError] = useState<string | null>(null);
+    const segmenter = useRef<SelfieSegmenter | null>(null);
+    // Set on unmount; a segmenter that finishes loading after that is closed at once
+    const disposed = useRef(false);
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+    const wantsMask = needsSegmentation(settings.effect);
+
+    useEffect(() => {
+        if (!wantsMask || segmentation !== 'off') return;
+        setSegmentation('loading');
+
+        createSelfieSegmenter().then(loaded => {
+            if (disposed.current) {
+                loaded.close();
+                return;
+            }
+            segmenter.current = loaded;
+            setSegmentation('ready');
+        }).catch(err => {
+            if (disposed.current) return;
+            console.error('Segmentation error:', err);
+            setSegmentationError(err instanceof Error ? err.message : String(err));
+            setSegmentation('error');
+        });
+    }, [wantsMask, segmentation]);
+
+    useEffect(() => {
+        disposed.current = false;
+        return () => {
+            disposed.current = true;
+            segmenter.current?.close();
+            segmenter.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!settings.image) {
+            setImage(null);
+            return;
+        }
+        const element = new Image();
+        element.src = settings.image;
+        setImage(element);
+    }, [settings.image]);
+
+    // Draw mirrored video to canvas for display
+    useEffect(() => {
+        if (!isActive || !videoRef.current || !canvasRef.current) return;
+
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const scratch = document.createElement('canvas');
+        let animationId: number;
+
+        const drawFrame = () => {
+            if (video.readyState >= 2) {
+                canvas.width = window.innerWidth;
+                canvas.height = window.innerHeight;
+
+                if (wantsMask) segmenter.current?.send(video);
+                drawCameraFrame(ctx, settings, {
+                    video,
+                    mask: wantsMask ? segmenter.current?.mask ?? null : null,
+                    image,
+                    scratch,
+                });
+            }
+
+            animationId = requestAnimationFrame(drawFrame);
+        };
+
+        drawFrame();
+
+        return () => {
+            cancelAnimationFrame(animationId);
+        };
+    }, [isActive, videoRef, canvasRef, settings, wantsMask, image]);
+
+    const update = useCallback((change: Partial<BackgroundSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...change };
+            saveBackgroundSettings(next);
+            return next;
+        });
+    }, []);
+
+    // Steps through the effects, skipping the image one until a picture is chosen
+    const cycleEffect = useCallback(() => {
+        setSettings(prev => {
+            const available = BACKGROUND_EFFECTS.filter(effect => effect.id !== 'image' || prev.image);
+            const index = available.findIndex(effect => effect.id === prev.effect);
+            const next = { ...prev, effect: available[(index + 1) % available.length].id };
+            saveBackgroundSettings(next);
+            return next;
+        });
+    }, []);
+
+    return {
+        settings,
+        segmentation,
+        segmentationError,
+        update,
+        cycleEffect,
+    };
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    DEFAULT_CAMERA_PRESET,
+    cameraConstraints,
+    describeCameraError,
+    listCameras,
+    loadCameraSettings,
+    saveCameraSettings,
+    type CameraError,
+    type CameraSettings,
+} from '@/lib/media/camera';
+
+export type CameraStatus = 'starting' | 'ready' | 'error';
+
+// What the camera actually delivers, which may differ from the preset
+export interface CameraFormat {
+    width: number;
+    height: number;
+    frameRate: number;
+}
+
+function isMissingDevice(err: unknown) {
+    return err instanceof DOMException && (err.name === 'NotFoundError' || err.name === 'OverconstrainedError');
+}
+
+/**
+ * Streams the chosen camera into `videoRef`. The device and quality preset are
+ * remembered in localStorage; plugging cameras in or out switches streams
+ * without a reload.
+ */
+export function useCamera(videoRef: React.RefObject<HTMLVideoElement | null>) {
+    const [settings, setSettings] = useState<CameraSettings>(() =>
+        typeof window === 'undefined' ? { deviceId: null, presetId: DEFAULT_CAMERA_PRESET } : loadCameraSettings()
+    );
+    const [status, setStatus] = useState<CameraStatus>('starting');
+    const [error, setError] = useState<CameraError | null>(null);
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+    const [format, setFormat] = useState<CameraFormat | null>(null);
+    // Bumped to open the stream again with the same settings
+    const [attempt, setAttempt] = useState(0);
+
+    const retry = useCallback(() => setAttempt(n => n + 1), []);
+
+    useEffect(() => {
+        let cancelled = false;
+        let stream: MediaStream | null = null;
+
+        const open = async () => {
+            setStatus('starting');
+
+            try {
+                if (!navigator.mediaDevices?.getUserMedia) {
+                    throw new Error('getUserMedia is not available');
+                }
+
+                try {
+                    stream = await navigator.mediaDevices.getUserMedia(cameraConstraints(settings));
+                } catch (err) {
+                    // A remembered camera that is unplugged falls back to the default one;
+                    // the choice is kept for when it comes back
+                    if (!settings.deviceId || !isMissingDevice(err)) throw err;
+                    stream = await navigator.mediaDevices.getUserMedia(cameraConstraints({ ...settings, deviceId: null }));
+                }
+
+                if (cancelled) {
+                    stream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+
+                const video = videoRef.current;
+                if (!video) return;
+                video.srcObject = stream;
+                await video.play();
+
+                const track = stream.getVideoTracks()[0];
+                const trackSettings = track?.getSettings() ?? {};
+                // Unplugging the camera ends the track
+                track?.addEventListener('ended', retry);
+
+                setActiveDeviceId(trackSettings.deviceId ?? null);
+                setFormat(trackSettings.width && trackSettings.height ? {
+                    width: trackSettings.width,
+                    height: trackSettings.height,
+                    frameRate: Math.round(trackSettings.frameRate ?? 0),
+                } : null);
+                setError(null);
+                setStatus('ready');
+            } catch (err) {
+                if (cancelled) return;
+                console.error('Camera error:', err);
+                setError(describeCameraError(err));
+                setStatus('error');
+            }
+
+            // Device labels are only filled in once permission has been asked for
+            listCameras().then(cameras => {
+                if (!cancelled) setDevices(cameras);
+            }).catch(() => {});
+        };
+
+        open();
+
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => {
+                track.removeEventListener('ended', retry);
+                track.stop();
+            });
+        };
+    }, [settings, attempt, videoRef, retry]);
+
+    // Device changes read the latest state without re-subscribing
+    const latest = useRef({ status, error, activeDeviceId, settings });
+    latest.current = { status, error, activeDeviceId, settings };
+
+    useEffect(() => {
+        const mediaDevices = typeof navigator === 'undefined' ? undefined : navigator.mediaDevices;
+        if (!mediaDevices) return;
+
+        const onDeviceChange = async () => {
+            const cameras = await listCameras().catch(() => []);
+            setDevices(cameras);
+
+            const { status, error, activeDeviceId, settings } = latest.current;
+            const ids = cameras.map(camera => camera.deviceId);
+
+            // A camera appeared after none was usable
+            const recovered = status === 'error' && error?.kind !== 'denied' && cameras.length > 0;
+            // The camera in use went away
+            const lost = status === 'ready' && activeDeviceId !== null && !ids.includes(activeDeviceId);
+            // The chosen camera came back while another one stood in
+            const returned = status === 'ready' && !!settings.deviceId
+                && settings.deviceId !== activeDeviceId && ids.includes(settings.deviceId);
+
+            if (recovered || lost || returned) retry();
+        };
+
+        mediaDevices.addEventListener('devicechange', onDeviceChange);
+        return () => mediaDevices.removeEventListener('devicechange', onDeviceChange);
+    }, [retry]);
+
+    const update = useCallback((change: Partial<CameraSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...change };
+            saveCameraSettings(next);
+            return next;
+        });
+    }, []);
+
+    const selectDevice = useCallback((deviceId: string | null) => update({ deviceId }), [update]);
+    const selectPreset = useCallback((presetId: string) => update({ presetId }), [update]);
+
+    return {
+        status,
+        error,
+        devices,
+        settings,
+        activeDeviceId,
+        format,
+        selectDevice,
+        selectPreset,
+        retry,
+    };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useGestureEvent } from './useGestureEngine';
+import type { HandTrackingState } from './useHandTracking';
+import type { GestureEngine } from '@/lib/tracking/gestureEngine';
+import {
+    createActionBus,
+    DEFAULT_GESTURE_BINDINGS,
+    loadGestureBindings,
+    saveGestureBindings,
+    type ActionBus,
+    type GestureAction,
+    type GestureActionHandler,
+    type GestureBindings,
+} from '@/lib/tracking/gestureBindings';
+
+/**
+ * Turns gesture engine events into the actions they are bound to. Bindings
+ * are remembered in localStorage; components subscribe with useGestureAction.
+ */
+export function useGestureBindings(engine: GestureEngine, handTracking: HandTrackingState) {
+    const [bindings, setBindings] = useState<GestureBindings>(() =>
+        typeof window === 'undefined' ? DEFAULT_GESTURE_BINDINGS : loadGestureBindings()
+    );
+    const [actions] = useState(() => createActionBus(bindings));
+    const hands = useRef(handTracking);
+    hands.current = handTracking;
+
+    useGestureEvent(engine, 'thumbsUp', ({ hand }) => actions.trigger(`thumbsUp.${hand}`, { hand }));
+    useGestureEvent(engine, 'thumbsDown', ({ hand }) => actions.trigger(`thumbsDown.${hand}`, { hand }));
+    useGestureEvent(engine, 'swipe', ({ hand, direction }) => {
+        actions.trigger(direction === 'left' ? `swipeLeft.${hand}` : `swipeRight.${hand}`, { hand });
+    });
+    // Single-palm holds; two open palms are the bothPalms gesture instead
+    useGestureEvent(engine, 'palmHold', ({ hand }) => {
+        const other = hand === 'Left' ? hands.current.rightHand : hands.current.leftHand;
+        if (other?.isOpenPalm) return;
+        actions.trigger(`palmHold.${hand}`, { hand });
+    });
+    useGestureEvent(engine, 'bothPalms', () => actions.trigger('bothPalms', { hand: null }));
+    useGestureEvent(engine, 'bothThumbsUp', () => actions.trigger('bothThumbsUp', { hand: null }));
+    useGestureEvent(engine, 'bothThumbsDown', () => actions.trigger('bothThumbsDown', { hand: null }));
+    useGestureEvent(engine, 'customPose', ({ hand, pose }) => actions.triggerPose(pose, { hand }));
+
+    const update = useCallback((next: GestureBindings) => {
+        actions.setBindings(next);
+        saveGestureBindings(next);
+        setBindings(next);
+    }, [actions]);
+
+    const reset = useCallback(() => update(DEFAULT_GESTURE_BINDINGS), [update]);
+
+    return { bindings, actions, update, reset };
+}
+
+export function useGestureAction(actions: ActionBus, action: GestureAction, handler: GestureActionHandler) {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => {
+        return actions.on(action, event => handlerRef.current(event));
+    }, [actions, action]);
+}
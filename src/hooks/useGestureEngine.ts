@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import {
+    createGestureEngine,
+    type GestureConfig,
+    type GestureEngine,
+    type GestureEventType,
+    type GestureHandler,
+} from '@/lib/tracking/gestureEngine';
+import type { HandTrackingState } from './useHandTracking';
+
+/**
+ * Feeds every tracking update into a gesture engine. Components subscribe to
+ * its events with useGestureEvent instead of diffing HandData themselves.
+ */
+export function useGestureEngine(handTracking: HandTrackingState, config?: Partial<GestureConfig>) {
+    const [engine] = useState(() => createGestureEngine(config));
+
+    useEffect(() => {
+        engine.update(handTracking.leftHand, handTracking.rightHand, performance.now());
+    }, [engine, handTracking]);
+
+    return engine;
+}
+
+export function useGestureEvent<K extends GestureEventType>(
+    engine: GestureEngine,
+    type: K,
+    handler: GestureHandler<K>
+) {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => {
+        return engine.on(type, event => handlerRef.current(event));
+    }, [engine, type]);
+}
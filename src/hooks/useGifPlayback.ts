@@ -0,0 +1,125 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { closeGif, decodeGifFrames, type DecodedGif } from '@/lib/media/gifFrames';
+
+/**
+ * Decodes a GIF into frames and plays them on a canvas so they can be paused,
+ * stepped and scrubbed. `ready` stays false while decoding and when the
+ * browser can't decode GIFs, in which case callers keep showing the <img>.
+ */
+export function useGifPlayback(canvas: HTMLCanvasElement | null, src: string | null) {
+    const [gif, setGif] = useState<DecodedGif | null>(null);
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [playing, setPlaying] = useState(true);
+
+    const frameIndexRef = useRef(0);
+    frameIndexRef.current = frameIndex;
+    // Fractional frame position while scrubbing, so slow hand movement still adds up
+    const scrubPosition = useRef<number | null>(null);
+
+    useEffect(() => {
+        setGif(null);
+        setFrameIndex(0);
+        scrubPosition.current = null;
+        setPlaying(true);
+        if (!src) return;
+
+        const controller = new AbortController();
+        let decoded: DecodedGif | null = null;
+
+        decodeGifFrames(src, controller.signal)
+            .then(result => {
+                decoded = result;
+                if (controller.signal.aborted) {
+                    if (result) closeGif(result);
+                    return;
+                }
+                setGif(result);
+            })
+            .catch(err => {
+                if (!controller.signal.aborted) {
+                    console.warn(`GIF decoding failed for ${src}, falling back to <img>:`, err);
+                }
+            });
+
+        return () => {
+            controller.abort();
+            if (decoded) closeGif(decoded);
+        };
+    }, [src]);
+
+    // Advance frames using each frame's own delay
+    useEffect(() => {
+        if (!gif || !playing || gif.frames.length < 2) return;
+
+        let animationId: number;
+        let last = performance.now();
+        let elapsed = 0;
+
+        const tick = (now: number) => {
+            elapsed += now - last;
+            last = now;
+
+            scrubPosition.current = null;
+            let index = frameIndexRef.current;
+            while (elapsed >= gif.frames[index].duration) {
+                elapsed -= gif.frames[index].duration;
+                index = (index + 1) % gif.frames.length;
+            }
+            if (index !== frameIndexRef.current) setFrameIndex(index);
+
+            animationId = requestAnimationFrame(tick);
+        };
+
+        animationId = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(animationId);
+    }, [gif, playing]);
+
+    // Takes the element rather than a ref: the canvas mounts once frames are ready
+    // and may remount, so redraw whenever it or the frame changes
+    useEffect(() => {
+        const frame = gif?.frames[frameIndex];
+        if (!canvas || !frame) return;
+
+        if (canvas.width !== gif.width || canvas.height !== gif.height) {
+            canvas.width = gif.width;
+            canvas.height = gif.height;
+        }
+        canvas.getContext('2d')?.drawImage(frame.image, 0, 0);
+    }, [canvas, gif, frameIndex]);
+
+    const frameCount = gif?.frames.length ?? 0;
+
+    const togglePlay = useCallback(() => setPlaying(prev => !prev), []);
+
+    const pause = useCallback(() => setPlaying(false), []);
+
+    // Pauses and moves by whole frames, wrapping around
+    const step = useCallback((offset: number) => {
+        if (frameCount === 0) return;
+        setPlaying(false);
+        scrubPosition.current = null;
+        setFrameIndex(prev => (prev + offset + frameCount) % frameCount);
+    }, [frameCount]);
+
+    // Moves by a fraction of the whole animation, clamped to the first/last frame
+    const scrubBy = useCallback((fraction: number) => {
+        if (frameCount === 0) return;
+        const from = scrubPosition.current ?? frameIndexRef.current;
+        const to = Math.max(0, Math.min(frameCount - 1, from + fraction * frameCount));
+        scrubPosition.current = to;
+        setFrameIndex(Math.round(to));
+    }, [frameCount]);
+
+    return {
+        ready: gif !== null,
+        playing,
+        frameIndex,
+        frameCount,
+        togglePlay,
+        pause,
+        step,
+        scrubBy,
+    };
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import {
+    DEFAULT_HAND_ROLES,
+    loadHandRoleSettings,
+    saveHandRoleSettings,
+    type HandRoleSettings,
+} from '@/lib/tracking/handIdentity';
+
+/**
+ * Which hand drives which controls, remembered in localStorage.
+ */
+export function useHandRoles() {
+    const [settings, setSettings] = useState<HandRoleSettings>(() =>
+        typeof window === 'undefined' ? DEFAULT_HAND_ROLES : loadHandRoleSettings()
+    );
+
+    const update = useCallback((change: Partial<HandRoleSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...change };
+            saveHandRoleSettings(next);
+            return next;
+        });
+    }, []);
+
+    return { settings, update };
+}
@@ -1,227 +1,214 @@
 "use client";
 
 import { useEffect, useRef, useCallback, useState } from 'react';
-
-export interface HandData {
-    landmarks: { x: number; y: number; z: number }[];
-    handedness: 'Left' | 'Right';
-    isPinching: boolean;
-    pinchPosition: { x: number; y: number };
-    pinchStrength: number;
-    isThumbsUp: boolean;
-    isThumbsDown: boolean;
-    isOpenPalm: boolean;
-}
+import { buildHandData } from '@/lib/tracking/gestures';
+import { createHandIdentityTracker, DEFAULT_HAND_ROLES, type HandRoleSettings } from '@/lib/tracking/handIdentity';
+import { createMediaPipeProvider } from '@/lib/tracking/mediapipeProvider';
+import { createLandmarkSmoother, type OneEuroOptions } from '@/lib/tracking/oneEuroFilter';
+import {
+    createPerformanceGovernor,
+    DEFAULT_PERFORMANCE_TIER,
+    tierById,
+    type PerformanceGovernor,
+    type PerformanceTier,
+    type PerformanceTierId,
+} from '@/lib/tracking/performanceGovernor';
+import type { HandData, HandFrame, HandTrackingProvider } from '@/lib/tracking/types';
+
+export type { HandData } from '@/lib/tracking/types';
 
 export interface HandTrackingState {
     leftHand: HandData | null;
     rightHand: HandData | null;
     isReady: boolean;
+    // Set when the provider failed to initialize (e.g. model assets missing)
+    error: string | null;
+    // Processed frames per second, smoothed
+    fps: number;
+    // Current performance tier; null for providers without a model to tune
+    tier: PerformanceTier | null;
+}
+
+export interface HandTrackingOptions {
+    // Defaults to MediaPipe Hands reading from the video element
+    provider?: HandTrackingProvider | null;
+    // One Euro filter settings applied to landmarks before gesture detection; null disables it
+    smoothing?: OneEuroOptions | null;
+    // Called with every processed frame and the hands derived from it (session recording)
+    onFrame?: (frame: HandFrame, leftHand: HandData | null, rightHand: HandData | null) => void;
+    // 'auto' lets the performance governor pick the tier; a tier id pins it
+    performance?: PerformanceTierId | 'auto';
+    // How tracked hands are mapped to the left and right roles
+    handRoles?: HandRoleSettings;
 }
 
-const PINCH_THRESHOLD = 0.08;
-const THUMB_GESTURE_THRESHOLD = 0.06; // Minimum vertical distance for thumb gesture
+// How often the governor re-evaluates the tier (ms)
+const GOVERNOR_INTERVAL = 500;
+
+// Cap for providers that don't limit their own rate
+const MIN_FRAME_INTERVAL = 16;
 
-export function useHandTracking(videoRef: React.RefObject<HTMLVideoElement | null>) {
+export function useHandTracking(
+    videoRef: React.RefObject<HTMLVideoElement | null>,
+    { provider, smoothing = null, onFrame, performance: performanceMode = 'auto', handRoles = DEFAULT_HAND_ROLES }: HandTrackingOptions = {}
+) {
     const [state, setState] = useState<HandTrackingState>({
         leftHand: null,
         rightHand: null,
         isReady: false,
+        error: null,
+        fps: 0,
+        tier: null,
     });
 
-    const handsRef = useRef<any>(null);
-    const animationFrameRef = useRef<number>(0);
+    const providerRef = useRef<HandTrackingProvider | null>(null);
     const lastProcessTime = useRef<number>(0);
+    const fps = useRef(0);
+    const onFrameRef = useRef(onFrame);
+    onFrameRef.current = onFrame;
+    const smootherRef = useRef<ReturnType<typeof createLandmarkSmoother> | null>(null);
+    const governorRef = useRef<PerformanceGovernor | null>(null);
+    const identityRef = useRef<ReturnType<typeof createHandIdentityTracker> | null>(null);
+
+    // New settings restart the running smoother's filters instead of replacing it
+    useEffect(() => {
+        if (!smoothing) smootherRef.current = null;
+        else if (smootherRef.current) smootherRef.current.configure(smoothing);
+        else smootherRef.current = createLandmarkSmoother(smoothing);
+    }, [smoothing]);
 
-    const calculatePinch = useCallback((landmarks: any[]): { isPinching: boolean; position: { x: number; y: number }; strength: number } => {
-        const thumbTip = landmarks[4];
-        const indexTip = landmarks[8];
-
-        const distance = Math.sqrt(
-            Math.pow(thumbTip.x - indexTip.x, 2) +
-            Math.pow(thumbTip.y - indexTip.y, 2) +
-            Math.pow(thumbTip.z - indexTip.z, 2)
-        );
-
-        const isPinching = distance < PINCH_THRESHOLD;
-        const strength = Math.max(0, 1 - distance / PINCH_THRESHOLD);
-
-        return {
-            isPinching,
-            position: {
-                x: (thumbTip.x + indexTip.x) / 2,
-                y: (thumbTip.y + indexTip.y) / 2,
-            },
-            strength,
-        };
-    }, []);
-
-    const detectThumbGesture = useCallback((landmarks: any[]): { isThumbsUp: boolean; isThumbsDown: boolean } => {
-        // Thumb landmarks
-        const thumbTip = landmarks[4];
-        const thumbIP = landmarks[3];
-        const thumbMCP = landmarks[2];
-        const thumbCMC = landmarks[1];
-
-        // Other finger tips to check if they're curled
-        const indexTip = landmarks[8];
-        const indexPIP = landmarks[6];
-        const middleTip = landmarks[12];
-        const middlePIP = landmarks[10];
-        const ringTip = landmarks[16];
-        const ringPIP = landmarks[14];
-        const pinkyTip = landmarks[20];
-        const pinkyPIP = landmarks[18];
-
-        // Wrist for reference
-        const wrist = landmarks[0];
-
-        // Check if fingers are curled (tips below their PIP joints in y)
-        const fingersCurled =
-            indexTip.y > indexPIP.y &&
-            middleTip.y > middlePIP.y &&
-            ringTip.y > ringPIP.y &&
-            pinkyTip.y > pinkyPIP.y;
-
-        // Thumb must be extended (tip far from wrist)
-        const thumbExtended = Math.abs(thumbTip.x - wrist.x) > 0.05 || Math.abs(thumbTip.y - wrist.y) > 0.1;
-
-        // Calculate thumb direction (vertical)
-        const thumbVertical = thumbCMC.y - thumbTip.y; // Positive = up, Negative = down
-
-        const isThumbsUp = fingersCurled && thumbExtended && thumbVertical > THUMB_GESTURE_THRESHOLD;
-        const isThumbsDown = fingersCurled && thumbExtended && thumbVertical < -THUMB_GESTURE_THRESHOLD;
-
-        return { isThumbsUp, isThumbsDown };
-    }, []);
-
-    const detectOpenPalm = useCallback((landmarks: any[]): boolean => {
-        // Check if all fingers are extended
-        const fingerTips = [8, 12, 16, 20]; // Index, Middle, Ring, Pinky
-        const fingerPIPs = [6, 10, 14, 18];
-
-        const fingersExtended = fingerTips.every((tipIdx, i) => {
-            return landmarks[tipIdx].y < landmarks[fingerPIPs[i]].y;
-        });
-
-        // Check thumb extension
-        const thumbTip = landmarks[4];
-        const thumbMCP = landmarks[2];
-        const thumbExtended = Math.abs(thumbTip.x - thumbMCP.x) > 0.05;
-
-        return fingersExtended && thumbExtended;
-    }, []);
+    useEffect(() => {
+        if (identityRef.current) identityRef.current.configure(handRoles);
+        else identityRef.current = createHandIdentityTracker(handRoles);
+    }, [handRoles]);
 
-    const processResults = useCallback((results: any) => {
+    const processResults = useCallback((frame: HandFrame) => {
         const now = performance.now();
-        if (now - lastProcessTime.current < 16) return; // ~60fps throttle
+        // Model providers are rate limited at the source by their tier, so nothing is thrown away after inference
+        const activeProvider = providerRef.current;
+        if (activeProvider?.throttled !== false && !activeProvider?.configure) {
+            if (now - lastProcessTime.current < MIN_FRAME_INTERVAL) return; // ~60fps throttle
+        }
+        if (frame.inferenceMs !== undefined) {
+            governorRef.current?.recordInference(frame.inferenceMs);
+        }
+        const interval = now - lastProcessTime.current;
         lastProcessTime.current = now;
+        // Averages over roughly the last ten frames; gaps of a second or more start over
+        if (interval > 0 && interval < 1000) {
+            fps.current = fps.current ? fps.current * 0.9 + (1000 / interval) * 0.1 : 1000 / interval;
+        } else {
+            fps.current = 0;
+        }
 
         let leftHand: HandData | null = null;
         let rightHand: HandData | null = null;
 
-        if (results.multiHandLandmarks && results.multiHandedness) {
-            for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-                const landmarks = results.multiHandLandmarks[i];
-                const handedness = results.multiHandedness[i];
-                // MediaPipe returns mirrored handedness, so we flip it
-                const actualHandedness = handedness.label === 'Left' ? 'Right' : 'Left';
-
-                const pinchData = calculatePinch(landmarks);
-                const thumbGesture = detectThumbGesture(landmarks);
-                const isOpenPalm = detectOpenPalm(landmarks);
-
-                const handData: HandData = {
-                    landmarks: landmarks.map((l: any) => ({ x: l.x, y: l.y, z: l.z })),
-                    handedness: actualHandedness,
-                    isPinching: pinchData.isPinching,
-                    pinchPosition: pinchData.position,
-                    pinchStrength: pinchData.strength,
-                    isThumbsUp: thumbGesture.isThumbsUp,
-                    isThumbsDown: thumbGesture.isThumbsDown,
-                    isOpenPalm,
-                };
-
-                if (actualHandedness === 'Left') {
-                    leftHand = handData;
-                } else {
-                    rightHand = handData;
-                }
+        // Roles are assigned once per hand and kept while it stays in view, so at most one hand per side
+        const assigned = activeProvider?.assignsRoles ? frame : identityRef.current?.assign(frame) ?? frame;
+        const smoothed = smootherRef.current?.smooth(assigned) ?? assigned;
+
+        for (let i = 0; i < smoothed.hands.length; i++) {
+            const hand = smoothed.hands[i];
+            const handData = buildHandData(hand, assigned.hands[i], frame.aspect);
+
+            if (hand.handedness === 'Left') {
+                leftHand = handData;
+            } else {
+                rightHand = handData;
             }
         }
 
+        onFrameRef.current?.(frame, leftHand, rightHand);
+
         setState(prev => ({
             ...prev,
             leftHand,
             rightHand,
+            fps: fps.current,
         }));
-    }, [calculatePinch, detectThumbGesture, detectOpenPalm]);
+    }, []);
 
     useEffect(() => {
         let mounted = true;
-
-        const initHands = async () => {
-            const { Hands } = await import('@mediapipe/hands');
+        const activeProvider = provider ?? createMediaPipeProvider();
+
+        const initProvider = async () => {
+            try {
+                await activeProvider.initialize();
+            } catch (err) {
+                console.error('Hand tracking error:', err);
+                if (mounted) {
+                    setState(prev => ({ ...prev, error: err instanceof Error ? err.message : String(err) }));
+                }
+                return;
+            }
 
             if (!mounted) return;
 
-            const hands = new Hands({
-                locateFile: (file: string) => {
-                    return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-                },
-            });
-
-            hands.setOptions({
-                maxNumHands: 2,
-                modelComplexity: 0, // Fastest model
-                minDetectionConfidence: 0.7,
-                minTrackingConfidence: 0.5,
-            });
-
-            hands.onResults(processResults);
-            handsRef.current = hands;
-
-            setState(prev => ({ ...prev, isReady: true }));
+            providerRef.current = activeProvider;
+            setState(prev => ({ ...prev, isReady: true, error: null }));
         };
 
-        initHands();
+        initProvider();
 
         return () => {
             mounted = false;
-            if (animationFrameRef.current) {
-                cancelAnimationFrame(animationFrameRef.current);
-            }
+            activeProvider.dispose();
+            providerRef.current = null;
+            identityRef.current?.reset();
+            setState({ leftHand: null, rightHand: null, isReady: false, error: null, fps: 0, tier: null });
         };
-    }, [processResults]);
+    }, [provider]);
 
     useEffect(() => {
-        if (!state.isReady || !videoRef.current || !handsRef.current) return;
+        const activeProvider = providerRef.current;
+        if (!state.isReady || !activeProvider) return;
 
-        let running = true;
+        const video = videoRef.current;
+        if (activeProvider.requiresVideo && !video) return;
 
-        const processFrame = async () => {
-            if (!running || !videoRef.current || !handsRef.current) return;
-
-            if (videoRef.current.readyState >= 2) {
-                try {
-                    await handsRef.current.send({ image: videoRef.current });
-                } catch (e) {
-                    // Ignore send errors
-                }
-            }
+        activeProvider.start(video, processResults, err => {
+            console.error('Hand tracking error:', err);
+            setState(prev => ({ ...prev, leftHand: null, rightHand: null, error: err.message }));
+        });
 
-            animationFrameRef.current = requestAnimationFrame(processFrame);
+        return () => {
+            activeProvider.stop();
         };
+    }, [state.isReady, videoRef, processResults]);
 
-        processFrame();
+    // Performance governor: moves the provider between tiers by inference
+    // latency; a pinned tier is applied once and left alone
+    useEffect(() => {
+        const activeProvider = providerRef.current;
+        if (!state.isReady || !activeProvider?.configure) return;
+
+        const pinned = tierById(performanceMode);
+        const governor = createPerformanceGovernor(pinned?.id ?? DEFAULT_PERFORMANCE_TIER);
+        governorRef.current = governor;
+        activeProvider.configure(governor.tier);
+        setState(prev => ({ ...prev, tier: governor.tier }));
+
+        if (pinned) {
+            return () => {
+                governorRef.current = null;
+            };
+        }
 
-        return () => {
-            running = false;
-            if (animationFrameRef.current) {
-                cancelAnimationFrame(animationFrameRef.current);
+        const interval = setInterval(() => {
+            const changed = governor.evaluate(performance.now());
+            if (changed) {
+                activeProvider.configure?.(changed);
+                setState(prev => ({ ...prev, tier: changed }));
             }
+        }, GOVERNOR_INTERVAL);
+
+        return () => {
+            clearInterval(interval);
+            governorRef.current = null;
         };
-    }, [state.isReady, videoRef]);
+    }, [state.isReady, performanceMode]);
 
     return state;
 }
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `handler` when `key` is pressed anywhere on the page, except while
+ * typing into a form field. Space on a focused button still presses the button.
+ */
+export function useKeyboardShortcut(key: string, handler: (event: KeyboardEvent) => void, enabled = true) {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const onKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+            if (key === ' ' && target?.tagName === 'BUTTON') return;
+            if (event.key !== key || event.metaKey || event.ctrlKey || event.altKey) return;
+
+            event.preventDefault();
+            handlerRef.current(event);
+        };
+
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [key, enabled]);
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { GestureEngine, GestureHandler } from '@/lib/tracking/gestureEngine';
+import { createPinchRouter, type PinchEventType, type PinchRouter } from '@/lib/tracking/pinchRouter';
+import type { Point } from '@/lib/screen';
+import type { Handedness } from '@/lib/tracking/types';
+
+/**
+ * Routes the engine's pinches through a PinchRouter. `pickTarget` runs once
+ * per pinch, when it starts; returning null drops the pinch.
+ */
+export function usePinchRouter(engine: GestureEngine, pickTarget: (hand: Handedness, position: Point) => string | null) {
+    const [router] = useState(createPinchRouter);
+    const pickTargetRef = useRef(pickTarget);
+    pickTargetRef.current = pickTarget;
+
+    useEffect(() => {
+        const unsubscribes = [
+            engine.on('pinchStart', event => router.start(event, pickTargetRef.current(event.hand, event.position))),
+            engine.on('pinchMove', event => router.move(event)),
+            engine.on('pinchEnd', event => router.end(event)),
+        ];
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }, [engine, router]);
+
+    return router;
+}
+
+export function usePinchEvent<K extends PinchEventType>(
+    router: PinchRouter,
+    target: string,
+    type: K,
+    handler: GestureHandler<K>
+) {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => {
+        return router.on(target, type, event => handlerRef.current(event));
+    }, [router, target, type]);
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { HandTrackingState } from './useHandTracking';
+import type { GestureEngine } from '@/lib/tracking/gestureEngine';
+import type { ActionBus } from '@/lib/tracking/gestureBindings';
+import {
+    createPoseClassifier,
+    createPoseId,
+    downloadCustomPoses,
+    importCustomPoses,
+    loadCustomPoses,
+    normalizeLandmarks,
+    saveCustomPoses,
+    type CustomPose,
+} from '@/lib/tracking/poseClassifier';
+
+// Time to get the hand into the pose before samples are taken
+const COUNTDOWN_MS = 3000;
+const RECORD_MS = 2000;
+// Spacing between samples, so a take is not twenty copies of the same frame
+const SAMPLE_INTERVAL_MS = 100;
+// Older samples are dropped beyond this, which bounds storage and matching time
+const MAX_SAMPLES_PER_POSE = 100;
+
+export interface PoseCapture {
+    // Null while recording a new pose
+    poseId: string | null;
+    name: string;
+    phase: 'countdown' | 'recording';
+    endsAt: number;
+    samples: number;
+}
+
+/**
+ * Records example poses, keeps them in localStorage and hands a k-NN
+ * classifier over them to the gesture engine, which then emits customPose.
+ * A take samples whichever hand is in view, the right one first.
+ */
+export function usePoseTrainer(engine: GestureEngine, handTracking: HandTrackingState, actions: ActionBus) {
+    const [poses, setPoses] = useState<CustomPose[]>(() =>
+        typeof window === 'undefined' ? [] : loadCustomPoses()
+    );
+    const [capture, setCapture] = useState<PoseCapture | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const samples = useRef<number[][]>([]);
+    const lastSampleAt = useRef(0);
+
+    const change = useCallback((update: (prev: CustomPose[]) => CustomPose[]) => {
+        setPoses(prev => {
+            const next = update(prev);
+            saveCustomPoses(next);
+            return next;
+        });
+    }, []);
+
+    useEffect(() => {
+        engine.setPoseClassifier(poses.length ? createPoseClassifier(poses) : null);
+    }, [engine, poses]);
+
+    useEffect(() => {
+        actions.setPaused(capture !== null);
+    }, [actions, capture]);
+
+    // Advances countdown -> recording -> done
+    useEffect(() => {
+        if (!capture) return;
+        const timeout = setTimeout(() => {
+            if (capture.phase === 'countdown') {
+                samples.current = [];
+                setCapture({ ...capture, phase: 'recording', endsAt: performance.now() + RECORD_MS, samples: 0 });
+                return;
+            }
+
+            const recorded = samples.current;
+            samples.current = [];
+            setCapture(null);
+            if (recorded.length === 0) {
+                setError('No hand was seen while recording; keep it in view and try again');
+                return;
+            }
+            change(prev => capture.poseId && prev.some(pose => pose.id === capture.poseId)
+                ? prev.map(pose => pose.id === capture.poseId
+                    ? { ...pose, samples: [...pose.samples, ...recorded].slice(-MAX_SAMPLES_PER_POSE) }
+                    : pose)
+                : [...prev, { id: createPoseId(capture.name, prev), name: capture.name, samples: recorded }]);
+        }, Math.max(0, capture.endsAt - performance.now()));
+        return () => clearTimeout(timeout);
+    }, [capture, change]);
+
+    useEffect(() => {
+        if (capture?.phase !== 'recording') return;
+        const hand = handTracking.rightHand ?? handTracking.leftHand;
+        const now = performance.now();
+        if (!hand || now - lastSampleAt.current < SAMPLE_INTERVAL_MS) return;
+
+        lastSampleAt.current = now;
+        samples.current.push(normalizeLandmarks(hand.landmarks, hand.physicalHand, hand.aspect));
+        setCapture(prev => prev && { ...prev, samples: samples.current.length });
+    }, [capture?.phase, handTracking]);
+
+    // Without poseId a new pose called `name` is created once the take has samples
+    const record = useCallback((name: string, poseId: string | null = null) => {
+        if (capture) return;
+        setError(null);
+        setCapture({ poseId, name, phase: 'countdown', endsAt: performance.now() + COUNTDOWN_MS, samples: 0 });
+    }, [capture]);
+
+    const cancel = useCallback(() => {
+        samples.current = [];
+        setCapture(null);
+    }, []);
+
+    const remove = useCallback((poseId: string) => {
+        change(prev => prev.filter(pose => pose.id !== poseId));
+    }, [change]);
+
+    // Imported poses replace ones with the same id; the rest are kept
+    const importFile = useCallback((text: string) => {
+        const imported = importCustomPoses(text);
+        change(prev => [...prev.filter(pose => !imported.some(other => other.id === pose.id)), ...imported]);
+        return imported;
+    }, [change]);
+
+    const exportFile = useCallback(() => downloadCustomPoses(poses), [poses]);
+
+    return { poses, capture, error, record, cancel, remove, importFile, exportFile };
+}
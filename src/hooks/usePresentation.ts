@@ -0,0 +1,142 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useGallery } from '@/context/GalleryContext';
+import { parseScript, type ScriptItem } from '@/lib/presentation/script';
+import { presenterChannel, type PresenterItem, type PresenterMessage, type PresenterState } from '@/lib/presentation/channel';
+import type { GalleryImage } from '@/lib/gallery/types';
+import type { TalkTimerConfig } from '@/lib/talkTimer';
+import { stopwatchElapsed, type Stopwatch } from '@/lib/stopwatch';
+
+interface TalkState {
+    config: TalkTimerConfig;
+    stopwatch: Stopwatch;
+}
+
+function toPresenterItem(image: GalleryImage | undefined, item?: ScriptItem): PresenterItem | null {
+    if (!image) return null;
+    return {
+        title: image.title,
+        src: image.src,
+        mediaType: image.mediaType,
+        notes: item?.notes ?? image.description ?? '',
+        durationMs: item?.durationMs ?? 0,
+        autoAdvance: item?.autoAdvance ?? false,
+    };
+}
+
+/**
+ * Loads the presentation script named in the URL (?script=/scripts/talk.json),
+ * auto-advances timed items and keeps presenter views in other windows up to
+ * date over BroadcastChannel.
+ */
+export function usePresentation(scriptUrl: string | null, talk: TalkState) {
+    const { images, status, script, scriptIndex, selectedImage, loadScript, endScript, next, prev } = useGallery();
+    const [error, setError] = useState<string | null>(null);
+    const [itemStartedAt, setItemStartedAt] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!scriptUrl || status !== 'ready') return;
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const response = await fetch(scriptUrl);
+                if (!response.ok) {
+                    throw new Error(`Failed to load script ${scriptUrl}: ${response.status}`);
+                }
+                const { script: loaded, problems } = parseScript(await response.text(), new Set(images.map(image => image.id)));
+                problems.forEach(problem => console.warn(`[script] ${problem}`));
+                if (!cancelled) loadScript(loaded);
+            } catch (err) {
+                console.error('Script error:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+            }
+        };
+
+        load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [scriptUrl, status, images, loadScript]);
+
+    const currentItem = script?.items[scriptIndex] ?? null;
+    const isLastItem = !script || scriptIndex >= script.items.length - 1;
+
+    // Time on the current item starts over whenever it changes
+    useEffect(() => {
+        setItemStartedAt(Date.now());
+    }, [currentItem]);
+
+    useEffect(() => {
+        if (!currentItem?.autoAdvance || isLastItem) return;
+        const timeout = setTimeout(next, Math.max(0, currentItem.durationMs - (Date.now() - itemStartedAt)));
+        return () => clearTimeout(timeout);
+    }, [currentItem, isLastItem, itemStartedAt, next]);
+
+    const buildState = (): PresenterState => {
+        const imageOf = (item: ScriptItem | null) => images.find(image => image.id === item?.id);
+        const nextItem = script?.items[scriptIndex + 1] ?? null;
+
+        return {
+            title: script?.title ?? null,
+            index: script ? scriptIndex : 0,
+            total: script?.items.length ?? 0,
+            current: script ? toPresenterItem(imageOf(currentItem), currentItem ?? undefined) : toPresenterItem(selectedImage ?? undefined),
+            next: toPresenterItem(imageOf(nextItem), nextItem ?? undefined),
+            itemStartedAt,
+            talk: {
+                elapsedMs: stopwatchElapsed(talk.stopwatch, performance.now()),
+                running: talk.stopwatch.startedAt !== null && talk.stopwatch.pausedAt === null,
+                sentAt: Date.now(),
+                config: talk.config,
+            },
+        };
+    };
+
+    // Handlers read the latest state without reopening the channel
+    const latest = useRef({ buildState, next, prev, endScript });
+    latest.current = { buildState, next, prev, endScript };
+    const channel = useRef<BroadcastChannel | null>(null);
+
+    useEffect(() => {
+        const opened = presenterChannel();
+        if (!opened) return;
+        channel.current = opened;
+
+        opened.onmessage = (event: MessageEvent<PresenterMessage>) => {
+            const message = event.data;
+            if (message.type === 'hello') {
+                opened.postMessage({ type: 'state', state: latest.current.buildState() } satisfies PresenterMessage);
+            } else if (message.type === 'command') {
+                if (message.command === 'next') latest.current.next();
+                else if (message.command === 'prev') latest.current.prev();
+                else latest.current.endScript();
+            }
+        };
+
+        return () => {
+            opened.close();
+            channel.current = null;
+        };
+    }, []);
+
+    // Presenter views derive the running time from `sentAt`, so only changes need sending
+    useEffect(() => {
+        channel.current?.postMessage({ type: 'state', state: latest.current.buildState() } satisfies PresenterMessage);
+    }, [script, scriptIndex, selectedImage, itemStartedAt, talk.stopwatch, talk.config]);
+
+    const openPresenterView = useCallback(() => {
+        window.open('/presenter', 'cv-gallery-presenter', 'popup,width=960,height=640');
+    }, []);
+
+    return {
+        script,
+        scriptIndex,
+        currentItem,
+        error,
+        endScript,
+        openPresenterView,
+    };
+}
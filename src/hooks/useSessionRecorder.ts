@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useRef, useState } from 'react';
+import { createSessionEntry, SESSION_FORMAT_VERSION, type RecordedSession, type SessionEntry } from '@/lib/tracking/session';
+import type { HandData, HandFrame } from '@/lib/tracking/types';
+
+export function useSessionRecorder(providerName: string) {
+    const [isRecording, setIsRecording] = useState(false);
+    const [entryCount, setEntryCount] = useState(0);
+
+    const entries = useRef<SessionEntry[]>([]);
+    const startedAt = useRef(0);
+    const createdAt = useRef('');
+    const recording = useRef(false);
+
+    const start = useCallback(() => {
+        entries.current = [];
+        startedAt.current = performance.now();
+        createdAt.current = new Date().toISOString();
+        recording.current = true;
+        setEntryCount(0);
+        setIsRecording(true);
+    }, []);
+
+    const stop = useCallback((): RecordedSession => {
+        recording.current = false;
+        setIsRecording(false);
+
+        return {
+            version: SESSION_FORMAT_VERSION,
+            createdAt: createdAt.current,
+            provider: providerName,
+            entries: entries.current,
+        };
+    }, [providerName]);
+
+    // Pass to useHandTracking's onFrame option
+    const record = useCallback((frame: HandFrame, leftHand: HandData | null, rightHand: HandData | null) => {
+        if (!recording.current) return;
+
+        entries.current.push(createSessionEntry(frame, startedAt.current, leftHand, rightHand));
+        // Re-render at most a few times a second for the counter
+        if (entries.current.length % 15 === 0) {
+            setEntryCount(entries.current.length);
+        }
+    }, []);
+
+    return { isRecording, entryCount, start, stop, record };
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { captureCurrentTab, downloadRecording, pickRecordingType } from '@/lib/media/stageRecording';
+import {
+    IDLE_STOPWATCH,
+    pauseStopwatch,
+    resumeStopwatch,
+    startStopwatch,
+    type Stopwatch,
+} from '@/lib/stopwatch';
+
+export type RecorderStatus = 'idle' | 'starting' | 'recording' | 'paused';
+
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+// Recorded data is flushed this often, so a crash loses at most this much
+const TIMESLICE_MS = 1000;
+const ERROR_VISIBLE_MS = 6000;
+// Browsers only allow screen capture from a key press or click, never from a gesture
+const START_HINT = 'Press R or click the timer to start recording';
+
+function describeCaptureError(err: unknown) {
+    const name = err instanceof DOMException ? err.name : '';
+    if (name === 'NotAllowedError') return 'Screen capture was blocked or cancelled';
+    return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Records the composited page (camera, stage, gallery, cursors) to WebM through
+ * tab capture and MediaRecorder. Stopping downloads the file. `start` must run
+ * from a key press or click; gestures can only pause, resume and stop.
+ */
+export function useStageRecorder() {
+    const [status, setStatus] = useState<RecorderStatus>('idle');
+    const [stopwatch, setStopwatch] = useState<Stopwatch>(IDLE_STOPWATCH);
+    const [error, setError] = useState<string | null>(null);
+
+    const recorder = useRef<MediaRecorder | null>(null);
+    const stream = useRef<MediaStream | null>(null);
+    const chunks = useRef<Blob[]>([]);
+    const startedAt = useRef(new Date());
+
+    const release = useCallback(() => {
+        stream.current?.getTracks().forEach(track => track.stop());
+        stream.current = null;
+        recorder.current = null;
+    }, []);
+
+    const stop = useCallback(() => {
+        const media = recorder.current;
+        if (media && media.state !== 'inactive') media.stop();
+    }, []);
+
+    const start = useCallback(async () => {
+        if (recorder.current || status === 'starting') return;
+
+        const mimeType = pickRecordingType();
+        if (!mimeType || !navigator.mediaDevices?.getDisplayMedia) {
+            setError('Recording is not supported in this browser');
+            return;
+        }
+
+        setError(null);
+        setStatus('starting');
+
+        try {
+            const capture = await captureCurrentTab();
+            stream.current = capture;
+
+            const media = new MediaRecorder(capture, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+            chunks.current = [];
+            media.ondataavailable = event => {
+                if (event.data.size > 0) chunks.current.push(event.data);
+            };
+            media.onstop = () => {
+                const blob = new Blob(chunks.current, { type: 'video/webm' });
+                chunks.current = [];
+                if (blob.size > 0) downloadRecording(blob, startedAt.current);
+                release();
+                setStatus('idle');
+                setStopwatch(IDLE_STOPWATCH);
+            };
+
+            // Ending the share from the browser's own UI stops the recording too
+            capture.getVideoTracks()[0]?.addEventListener('ended', stop);
+
+            recorder.current = media;
+            startedAt.current = new Date();
+            media.start(TIMESLICE_MS);
+            setStopwatch(startStopwatch(performance.now()));
+            setStatus('recording');
+        } catch (err) {
+            release();
+            setStatus('idle');
+            setError(describeCaptureError(err));
+        }
+    }, [status, release, stop]);
+
+    const pause = useCallback(() => {
+        const media = recorder.current;
+        if (media?.state !== 'recording') return;
+        media.pause();
+        setStopwatch(prev => pauseStopwatch(prev, performance.now()));
+        setStatus('paused');
+    }, []);
+
+    const resume = useCallback(() => {
+        const media = recorder.current;
+        if (media?.state !== 'paused') return;
+        media.resume();
+        setStopwatch(prev => resumeStopwatch(prev, performance.now()));
+        setStatus('recording');
+    }, []);
+
+    const togglePause = useCallback(() => {
+        if (recorder.current?.state === 'paused') resume(); else pause();
+    }, [pause, resume]);
+
+    // Start when idle, stop otherwise
+    const toggle = useCallback(() => {
+        if (recorder.current) stop(); else start();
+    }, [start, stop]);
+
+    // For gestures that ask for a recording: tells the presenter how to start one
+    const promptStart = useCallback(() => setError(START_HINT), []);
+
+    useEffect(() => {
+        if (!error) return;
+        const timeout = setTimeout(() => setError(null), ERROR_VISIBLE_MS);
+        return () => clearTimeout(timeout);
+    }, [error]);
+
+    // Leaving the page still saves what was recorded
+    useEffect(() => () => {
+        if (recorder.current && recorder.current.state !== 'inactive') recorder.current.stop();
+    }, []);
+
+    return { status, stopwatch, error, start, stop, pause, resume, togglePause, toggle, promptStart };
+}
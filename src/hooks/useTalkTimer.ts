@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import type { TalkTimerConfig } from '@/lib/talkTimer';
+import {
+    IDLE_STOPWATCH,
+    pauseStopwatch,
+    resumeStopwatch,
+    startStopwatch,
+    type Stopwatch,
+} from '@/lib/stopwatch';
+
+export function useTalkTimer(initialConfig: TalkTimerConfig) {
+    const [config, setConfig] = useState(initialConfig);
+    const [stopwatch, setStopwatch] = useState<Stopwatch>(IDLE_STOPWATCH);
+
+    const isRunning = stopwatch.startedAt !== null && stopwatch.pausedAt === null;
+
+    const start = useCallback(() => {
+        setStopwatch(prev => prev.startedAt === null ? startStopwatch(performance.now()) : prev);
+    }, []);
+
+    // Starts when idle, otherwise pauses or resumes
+    const toggle = useCallback(() => {
+        setStopwatch(prev => {
+            const now = performance.now();
+            if (prev.startedAt === null) return startStopwatch(now);
+            return prev.pausedAt === null ? pauseStopwatch(prev, now) : resumeStopwatch(prev, now);
+        });
+    }, []);
+
+    // Back to zero; a running timer keeps running
+    const reset = useCallback(() => {
+        setStopwatch(prev => {
+            if (prev.startedAt === null) return prev;
+            const now = performance.now();
+            return prev.pausedAt === null ? startStopwatch(now) : pauseStopwatch(startStopwatch(now), now);
+        });
+    }, []);
+
+    const toggleMode = useCallback(() => {
+        setConfig(prev => ({ ...prev, mode: prev.mode === 'countdown' ? 'stopwatch' : 'countdown' }));
+    }, []);
+
+    return { config, stopwatch, isRunning, start, toggle, reset, toggleMode, setConfig };
+}
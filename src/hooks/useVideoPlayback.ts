@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Takes the element rather than a ref so a remounted <video> is picked up again
+export function useVideoPlayback(video: HTMLVideoElement | null, src: string | null) {
+    const [playing, setPlaying] = useState(false);
+    const [muted, setMuted] = useState(true);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+
+    // Mirror the element's state so gestures and keyboard stay in sync with it
+    useEffect(() => {
+        if (!video || !src) return;
+
+        const sync = () => {
+            setPlaying(!video.paused);
+            setMuted(video.muted);
+            setCurrentTime(video.currentTime);
+            setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+        };
+
+        const events = ['play', 'pause', 'timeupdate', 'loadedmetadata', 'volumechange', 'seeked'];
+        events.forEach(event => video.addEventListener(event, sync));
+        sync();
+
+        return () => events.forEach(event => video.removeEventListener(event, sync));
+    }, [video, src]);
+
+    const togglePlay = useCallback(() => {
+        if (!video) return;
+        if (video.paused) {
+            video.play().catch(() => {
+                // Autoplay policies can reject; the element stays paused
+            });
+        } else {
+            video.pause();
+        }
+    }, [video]);
+
+    const toggleMute = useCallback(() => {
+        if (video) video.muted = !video.muted;
+    }, [video]);
+
+    const seekBy = useCallback((seconds: number) => {
+        if (!video || !Number.isFinite(video.duration)) return;
+        video.currentTime = Math.max(0, Math.min(video.duration, video.currentTime + seconds));
+    }, [video]);
+
+    return { playing, muted, currentTime, duration, togglePlay, toggleMute, seekBy };
+}
@@ -0,0 +1,15 @@
+/**
+ * Saves `blob` as a file through a temporary link. The object URL is released
+ * a moment later; revoking it right after the click cancels the download in
+ * some browsers.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
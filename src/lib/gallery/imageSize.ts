@@ -0,0 +1,51 @@
+import { closeSync, openSync, readSync } from 'node:fs';
+
+// Reads intrinsic dimensions from the file header without decoding the image.
+// Supports PNG, GIF and JPEG; returns null for anything else.
+
+const HEADER_BYTES = 64 * 1024;
+
+function readHeader(path: string): Buffer {
+    const fd = openSync(path, 'r');
+    try {
+        const buffer = Buffer.alloc(HEADER_BYTES);
+        const length = readSync(fd, buffer, 0, HEADER_BYTES, 0);
+        return buffer.subarray(0, length);
+    } finally {
+        closeSync(fd);
+    }
+}
+
+function jpegSize(buffer: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) return null;
+        const marker = buffer[offset + 1];
+        const length = buffer.readUInt16BE(offset + 2);
+        // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + length;
+    }
+    return null;
+}
+
+export function readImageSize(path: string): { width: number; height: number } | null {
+    try {
+        const buffer = readHeader(path);
+
+        if (buffer.length >= 24 && buffer.toString('ascii', 1, 4) === 'PNG') {
+            return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+        }
+        if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+            return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+        }
+        if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+            return jpegSize(buffer);
+        }
+    } catch {
+        // Unreadable files are reported by manifest validation
+    }
+    return null;
+}
@@ -0,0 +1,223 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { extname, join, relative, sep } from 'node:path';
+import { readImageSize } from './imageSize';
+import type { GalleryAlbum, GalleryImage, MediaType } from './types';
+
+// Server-only: reads public/gallery from disk. Used by the /api/gallery route
+// and by next.config.ts to validate the gallery at build time.
+
+export const MANIFEST_FILE = 'gallery.json';
+export const VIDEO_EXTENSIONS = ['.mp4', '.webm'];
+export const MEDIA_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif', '.svg', ...VIDEO_EXTENSIONS];
+// Album for files directly in public/gallery; sub-folders become their own albums
+export const ROOT_ALBUM_ID = 'gallery';
+
+export interface ManifestEntry {
+    // Path relative to public/gallery, e.g. "image1.gif" or "applications/demo.png"
+    src: string;
+    id?: string;
+    title?: string;
+    alt?: string;
+    caption?: string;
+    description?: string;
+    tags?: string[];
+    width?: number;
+    height?: number;
+}
+
+export interface ManifestAlbum {
+    // Sub-folder name, or "gallery" for the top level
+    id: string;
+    name?: string;
+    // Path relative to public/gallery; defaults to the album's first image
+    cover?: string;
+}
+
+interface ManifestFile {
+    albums: ManifestAlbum[];
+    entries: ManifestEntry[];
+}
+
+export interface GalleryManifest {
+    albums: GalleryAlbum[];
+    images: GalleryImage[];
+    // Human-readable problems: missing files, bad paths, duplicates
+    problems: string[];
+}
+
+function toPosix(path: string) {
+    return path.split(sep).join('/');
+}
+
+function titleFromPath(path: string) {
+    const name = path.split('/').pop() ?? path;
+    return name.slice(0, name.length - extname(name).length).replace(/[-_]+/g, ' ');
+}
+
+function albumOf(path: string) {
+    const slash = path.indexOf('/');
+    return slash === -1 ? ROOT_ALBUM_ID : path.slice(0, slash);
+}
+
+function albumName(id: string) {
+    return id === ROOT_ALBUM_ID ? 'Gallery' : id.replace(/[-_]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function mediaTypeOf(path: string): MediaType {
+    const extension = extname(path).toLowerCase();
+    if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+    return extension === '.gif' ? 'gif' : 'image';
+}
+
+function scanMedia(root: string, dir = root): string[] {
+    return readdirSync(dir, { withFileTypes: true })
+        .filter(entry => !entry.name.startsWith('.'))
+        .flatMap(entry => {
+            const full = join(dir, entry.name);
+            if (entry.isDirectory()) return scanMedia(root, full);
+            return MEDIA_EXTENSIONS.includes(extname(entry.name).toLowerCase()) ? [toPosix(relative(root, full))] : [];
+        })
+        .sort();
+}
+
+function readManifestFile(root: string, problems: string[]): ManifestFile {
+    const file = join(root, MANIFEST_FILE);
+    if (!existsSync(file)) return { albums: [], entries: [] };
+
+    try {
+        const data = JSON.parse(readFileSync(file, 'utf8'));
+        if (!Array.isArray(data.images)) {
+            problems.push(`${MANIFEST_FILE}: "images" must be an array`);
+            return { albums: [], entries: [] };
+        }
+        if (data.albums !== undefined && !Array.isArray(data.albums)) {
+            problems.push(`${MANIFEST_FILE}: "albums" must be an array`);
+            return { albums: [], entries: data.images };
+        }
+        return { albums: data.albums ?? [], entries: data.images };
+    } catch (err) {
+        problems.push(`${MANIFEST_FILE}: ${(err as Error).message}`);
+        return { albums: [], entries: [] };
+    }
+}
+
+function checkEntry(root: string, entry: ManifestEntry, index: number): string | null {
+    const label = `${MANIFEST_FILE} images[${index}]`;
+
+    // gallery.json is hand-written, so an entry may be anything
+    if (!entry || typeof entry !== 'object') return `${label}: not an object`;
+    if (typeof entry.src !== 'string' || !entry.src) return `${label}: missing "src"`;
+    if (entry.src.startsWith('/') || entry.src.includes('\\') || entry.src.split('/').includes('..')) {
+        return `${label}: "${entry.src}" must be a path relative to public/gallery`;
+    }
+    if (!MEDIA_EXTENSIONS.includes(extname(entry.src).toLowerCase())) {
+        return `${label}: "${entry.src}" is not a supported media type`;
+    }
+    if (entry.tags !== undefined && (!Array.isArray(entry.tags) || !entry.tags.every(tag => typeof tag === 'string'))) {
+        return `${label}: "tags" must be an array of strings`;
+    }
+    const full = join(root, entry.src);
+    if (!existsSync(full) || !statSync(full).isFile()) {
+        return `${label}: "${entry.src}" does not exist in public/gallery`;
+    }
+    return null;
+}
+
+/**
+ * Builds the gallery from public/gallery: entries listed in gallery.json come
+ * first, in their listed order, followed by any other media files found in the
+ * folder tree. Invalid entries are left out and reported in `problems`.
+ */
+export function loadGalleryManifest(root = join(process.cwd(), 'public', 'gallery')): GalleryManifest {
+    const problems: string[] = [];
+    if (!existsSync(root)) {
+        return { albums: [], images: [], problems: [`Gallery folder not found: ${root}`] };
+    }
+
+    const images: GalleryImage[] = [];
+    const ids = new Set<string>();
+    const listed = new Set<string>();
+
+    const add = (entry: ManifestEntry) => {
+        const id = entry.id ?? entry.src.slice(0, entry.src.length - extname(entry.src).length);
+        if (ids.has(id)) {
+            problems.push(`Duplicate gallery id "${id}" (${entry.src})`);
+            return;
+        }
+        ids.add(id);
+
+        const title = entry.title ?? titleFromPath(entry.src);
+        const size = entry.width && entry.height
+            ? { width: entry.width, height: entry.height }
+            : readImageSize(join(root, entry.src));
+
+        images.push({
+            id,
+            src: `/gallery/${entry.src}`,
+            title,
+            album: albumOf(entry.src),
+            mediaType: mediaTypeOf(entry.src),
+            alt: entry.alt ?? title,
+            tags: Array.isArray(entry.tags) ? entry.tags : [],
+            ...(entry.caption ? { caption: entry.caption } : {}),
+            ...(entry.description ? { description: entry.description } : {}),
+            ...(size ?? {}),
+        });
+    };
+
+    const manifest = readManifestFile(root, problems);
+
+    manifest.entries.forEach((entry, index) => {
+        const problem = checkEntry(root, entry, index);
+        if (problem) {
+            problems.push(problem);
+            return;
+        }
+        listed.add(entry.src);
+        add(entry);
+    });
+
+    for (const src of scanMedia(root)) {
+        if (!listed.has(src)) add({ src });
+    }
+
+    return { albums: buildAlbums(manifest.albums, images, problems), images, problems };
+}
+
+/**
+ * One album per folder that holds images. Albums described in gallery.json come
+ * first, in their listed order, and may set a display name and cover.
+ */
+function buildAlbums(described: ManifestAlbum[], images: GalleryImage[], problems: string[]): GalleryAlbum[] {
+    const present = [...new Set(images.map(image => image.album))];
+    const ordered: ManifestAlbum[] = [
+        ...described.filter(album => {
+            if (present.includes(album.id)) return true;
+            problems.push(`${MANIFEST_FILE}: album "${album.id}" has no images`);
+            return false;
+        }),
+        ...present.filter(id => !described.some(album => album.id === id)).map(id => ({ id })),
+    ];
+
+    return ordered.map(album => {
+        const albumImages = images.filter(image => image.album === album.id);
+        // Prefer a still or GIF; a video cover only shows its first frame
+        let cover = albumImages.find(image => image.mediaType !== 'video') ?? albumImages[0];
+
+        if (album.cover) {
+            const match = albumImages.find(image => image.src === `/gallery/${album.cover}`);
+            if (match) {
+                cover = match;
+            } else {
+                problems.push(`${MANIFEST_FILE}: cover "${album.cover}" of album "${album.id}" is not an image in that album`);
+            }
+        }
+
+        return {
+            id: album.id,
+            name: album.name ?? albumName(album.id),
+            cover,
+            count: albumImages.length,
+        };
+    });
+}
@@ -0,0 +1,232 @@
+import type { PresentationScript } from '@/lib/presentation/script';
+import type { Point } from '@/lib/screen';
+import type { GalleryAlbum, GalleryImage } from './types';
+
+// An image placed on the stage
+export interface StageItem {
+    id: string;
+    // Screen point the image was dropped at; it is placed there
+    dropPosition: Point | null;
+}
+
+export type ComparisonLayout = 'sideBySide' | 'wipe';
+
+export interface GalleryState {
+    images: GalleryImage[];
+    albums: GalleryAlbum[];
+    // Album shown in the sidebar; next/prev step through its images
+    currentAlbumId: string | null;
+    status: 'loading' | 'ready' | 'error';
+    error: string | null;
+    // Images on the stage, back to front
+    stage: StageItem[];
+    // Compares the two front-most stage images when set
+    compareLayout: ComparisonLayout | null;
+    // Front-most stage image; next/prev replace it
+    selectedId: string | null;
+    // Survives clearing the stage so next/prev continue from where the user was
+    lastSelectedId: string | null;
+    // Previously selected ids, most recent last
+    history: string[];
+    // While a presentation script is loaded, next/prev walk its items instead of the album
+    script: PresentationScript | null;
+    scriptIndex: number;
+}
+
+export type GalleryAction =
+    | { type: 'loaded'; images: GalleryImage[]; albums: GalleryAlbum[] }
+    | { type: 'failed'; error: string }
+    // Adds an image to the front of the stage, or brings it forward if already there
+    | { type: 'select'; id: string | null; dropPosition?: Point }
+    | { type: 'bringToFront'; id: string }
+    | { type: 'remove'; id: string }
+    | { type: 'clearStage' }
+    | { type: 'setCompareLayout'; layout: ComparisonLayout | null }
+    | { type: 'loadScript'; script: PresentationScript }
+    | { type: 'endScript' }
+    | { type: 'step'; offset: number }
+    | { type: 'back' }
+    | { type: 'selectAlbum'; id: string }
+    | { type: 'stepAlbum'; offset: number };
+
+const HISTORY_LIMIT = 50;
+// Oldest (back-most) images leave the stage beyond this
+export const MAX_STAGE_ITEMS = 6;
+
+export const initialGalleryState: GalleryState = {
+    images: [],
+    albums: [],
+    currentAlbumId: null,
+    status: 'loading',
+    error: null,
+    stage: [],
+    compareLayout: null,
+    selectedId: null,
+    lastSelectedId: null,
+    history: [],
+    script: null,
+    scriptIndex: 0,
+};
+
+function wrapIndex(index: number, length: number) {
+    return ((index % length) + length) % length;
+}
+
+function withStage(state: GalleryState, stage: StageItem[]): GalleryState {
+    const front = stage[stage.length - 1]?.id ?? null;
+    // Comparing needs two images; fewer ends it
+    const compareLayout = stage.length >= 2 ? state.compareLayout : null;
+    if (front === state.selectedId) return { ...state, stage, compareLayout };
+
+    const history = state.selectedId
+        ? [...state.history, state.selectedId].slice(-HISTORY_LIMIT)
+        : state.history;
+
+    return {
+        ...state,
+        stage,
+        compareLayout,
+        selectedId: front,
+        lastSelectedId: front ?? state.lastSelectedId,
+        history,
+    };
+}
+
+function addToStage(state: GalleryState, id: string, dropPosition: Point | null): GalleryState {
+    const existing = state.stage.find(item => item.id === id);
+    if (existing) return bringToFront(state, id);
+    return withStage(state, [...state.stage, { id, dropPosition }].slice(-MAX_STAGE_ITEMS));
+}
+
+function bringToFront(state: GalleryState, id: string): GalleryState {
+    const item = state.stage.find(entry => entry.id === id);
+    if (!item || state.selectedId === id) return state;
+    return withStage(state, [...state.stage.filter(entry => entry.id !== id), item]);
+}
+
+// Picking an image or album by hand leaves the script, so next/prev follow the album again
+function endScript(state: GalleryState): GalleryState {
+    return state.script ? { ...state, script: null, scriptIndex: 0 } : state;
+}
+
+// Swaps the front image for another one in the same spot (next/prev/back)
+function replaceFront(state: GalleryState, id: string): GalleryState {
+    const front = state.stage[state.stage.length - 1];
+    if (!front) return addToStage(state, id, null);
+    if (front.id === id) return state;
+
+    const rest = state.stage.slice(0, -1).filter(item => item.id !== id);
+    return withStage(state, [...rest, { id, dropPosition: front.dropPosition }]);
+}
+
+export function galleryReducer(state: GalleryState, action: GalleryAction): GalleryState {
+    switch (action.type) {
+        case 'loaded': {
+            const ids = new Set(action.images.map(image => image.id));
+            const albumExists = action.albums.some(album => album.id === state.currentAlbumId);
+            return {
+                ...state,
+                images: action.images,
+                albums: action.albums,
+                currentAlbumId: albumExists ? state.currentAlbumId : action.albums[0]?.id ?? null,
+                status: 'ready',
+                error: null,
+                // Drop references to images that no longer exist
+                stage: state.stage.filter(item => ids.has(item.id)),
+                compareLayout: state.stage.filter(item => ids.has(item.id)).length >= 2 ? state.compareLayout : null,
+                selectedId: state.selectedId && ids.has(state.selectedId) ? state.selectedId : null,
+                lastSelectedId: state.lastSelectedId && ids.has(state.lastSelectedId) ? state.lastSelectedId : null,
+                history: state.history.filter(id => ids.has(id)),
+            };
+        }
+        case 'failed':
+            return { ...state, status: 'error', error: action.error };
+        case 'select':
+            return endScript(action.id === null ? withStage(state, []) : addToStage(state, action.id, action.dropPosition ?? null));
+        case 'bringToFront':
+            return bringToFront(state, action.id);
+        case 'remove':
+            return withStage(state, state.stage.filter(item => item.id !== action.id));
+        case 'clearStage':
+            return withStage(state, []);
+        case 'loadScript':
+            return { ...replaceFront(state, action.script.items[0].id), script: action.script, scriptIndex: 0 };
+        case 'endScript':
+            return endScript(state);
+        case 'setCompareLayout':
+            if (action.layout && state.stage.length < 2) return state;
+            return { ...state, compareLayout: action.layout };
+        case 'step': {
+            if (state.script) {
+                // Scripts run start to end without wrapping
+                const index = Math.max(0, Math.min(state.script.items.length - 1, state.scriptIndex + action.offset));
+                return { ...replaceFront(state, state.script.items[index].id), scriptIndex: index };
+            }
+
+            const images = albumImagesOf(state);
+            if (images.length === 0) return state;
+
+            const currentId = state.selectedId ?? state.lastSelectedId;
+            const currentIndex = images.findIndex(image => image.id === currentId);
+            // With nothing selected yet, next starts at the first image and prev at the last
+            const from = currentIndex === -1 ? (action.offset > 0 ? -1 : 0) : currentIndex;
+            return replaceFront(state, images[wrapIndex(from + action.offset, images.length)].id);
+        }
+        case 'back': {
+            const previous = state.history[state.history.length - 1];
+            if (!previous) return state;
+            // Going back consumes the history entry instead of recording the current image
+            return { ...replaceFront(state, previous), history: state.history.slice(0, -1) };
+        }
+        case 'selectAlbum':
+            if (!state.albums.some(album => album.id === action.id)) return state;
+            return { ...endScript(state), currentAlbumId: action.id };
+        case 'stepAlbum': {
+            if (state.albums.length === 0) return state;
+            const index = state.albums.findIndex(album => album.id === state.currentAlbumId);
+            return { ...endScript(state), currentAlbumId: state.albums[wrapIndex(index + action.offset, state.albums.length)].id };
+        }
+    }
+}
+
+export function albumImagesOf(state: GalleryState): GalleryImage[] {
+    return state.images.filter(image => image.album === state.currentAlbumId);
+}
+
+export function currentAlbumOf(state: GalleryState): GalleryAlbum | null {
+    return state.albums.find(album => album.id === state.currentAlbumId) ?? null;
+}
+
+export function selectedImageOf(state: GalleryState): GalleryImage | null {
+    return state.images.find(image => image.id === state.selectedId) ?? null;
+}
+
+export interface StagedImage {
+    image: GalleryImage;
+    dropPosition: Point | null;
+}
+
+// Stage images back to front
+export function stageImagesOf(state: GalleryState): StagedImage[] {
+    return state.stage.flatMap(item => {
+        const image = state.images.find(entry => entry.id === item.id);
+        return image ? [{ image, dropPosition: item.dropPosition }] : [];
+    });
+}
+
+export interface Comparison {
+    before: GalleryImage;
+    after: GalleryImage;
+    layout: ComparisonLayout;
+}
+
+// The front image is "after", the one just behind it "before"
+export function comparisonOf(state: GalleryState): Comparison | null {
+    const staged = stageImagesOf(state);
+    if (!state.compareLayout || staged.length < 2) return null;
+    return {
+        before: staged[staged.length - 2].image,
+        after: staged[staged.length - 1].image,
+        layout: state.compareLayout,
+    };
+}
@@ -0,0 +1,27 @@
+export type MediaType = 'image' | 'gif' | 'video';
+
+export interface GalleryImage {
+    id: string;
+    // URL under the site root, e.g. /gallery/image1.gif
+    src: string;
+    title: string;
+    mediaType: MediaType;
+    // Id of the album (sub-folder) the image belongs to
+    album: string;
+    // Text alternative for screen readers; falls back to the title
+    alt: string;
+    caption?: string;
+    description?: string;
+    tags: string[];
+    // Intrinsic size in pixels, when known
+    width?: number;
+    height?: number;
+}
+
+export interface GalleryAlbum {
+    id: string;
+    name: string;
+    // Item shown in the collection picker; a video only when the album has nothing else
+    cover: GalleryImage;
+    count: number;
+}
@@ -0,0 +1,178 @@
+export type BackgroundEffect = 'none' | 'dim' | 'blur' | 'color' | 'image' | 'hidden';
+
+export const BACKGROUND_EFFECTS: { id: BackgroundEffect; label: string }[] = [
+    { id: 'none', label: 'None' },
+    { id: 'dim', label: 'Dim' },
+    { id: 'blur', label: 'Blur' },
+    { id: 'color', label: 'Color' },
+    { id: 'image', label: 'Image' },
+    // No camera picture at all; tracking keeps running
+    { id: 'hidden', label: 'Gallery only' },
+];
+
+export interface BackgroundSettings {
+    effect: BackgroundEffect;
+    color: string;
+    // Data URL of an uploaded picture
+    image: string | null;
+}
+
+export const DEFAULT_BACKGROUND: BackgroundSettings = {
+    effect: 'none',
+    color: '#101418',
+    image: null,
+};
+
+const DIM_OPACITY = 0.65;
+const BLUR_PX = 14;
+// Softens the cut-out edge of the presenter
+const MASK_FEATHER_PX = 3;
+
+const STORAGE_KEY = 'cv-gallery-background';
+
+// Effects that keep the presenter in front of a replaced or treated background
+export function needsSegmentation(effect: BackgroundEffect) {
+    return effect !== 'none' && effect !== 'hidden';
+}
+
+export function loadBackgroundSettings(): BackgroundSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!stored || typeof stored !== 'object') return DEFAULT_BACKGROUND;
+        return {
+            effect: BACKGROUND_EFFECTS.some(effect => effect.id === stored.effect) ? stored.effect : DEFAULT_BACKGROUND.effect,
+            color: typeof stored.color === 'string' ? stored.color : DEFAULT_BACKGROUND.color,
+            image: typeof stored.image === 'string' ? stored.image : null,
+        };
+    } catch {
+        return DEFAULT_BACKGROUND;
+    }
+}
+
+export function saveBackgroundSettings(settings: BackgroundSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Large pictures can exceed the storage quota; keep the rest of the settings
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, image: null }));
+        } catch {
+            // Storage unavailable
+        }
+    }
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Where a source of the given size lands when it covers the canvas
+function coverRect(sourceWidth: number, sourceHeight: number, width: number, height: number): Rect {
+    const sourceAspect = sourceWidth / sourceHeight;
+    if (width / height > sourceAspect) {
+        const drawHeight = width / sourceAspect;
+        return { x: 0, y: (height - drawHeight) / 2, width, height: drawHeight };
+    }
+    const drawWidth = height * sourceAspect;
+    return { x: (width - drawWidth) / 2, y: 0, width: drawWidth, height };
+}
+
+function drawCover(
+    ctx: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    mirrored: boolean
+) {
+    const { width, height } = ctx.canvas;
+    const rect = coverRect(sourceWidth, sourceHeight, width, height);
+
+    if (mirrored) {
+        ctx.save();
+        ctx.scale(-1, 1);
+        ctx.drawImage(source, -rect.x - rect.width, rect.y, rect.width, rect.height);
+        ctx.restore();
+    } else {
+        ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+    }
+}
+
+export interface BackgroundLayers {
+    video: HTMLVideoElement;
+    // Latest person mask, stretched over the video, or null while unavailable
+    mask: HTMLCanvasElement | null;
+    image: HTMLImageElement | null;
+    // Scratch canvas for cutting the presenter out
+    scratch: HTMLCanvasElement;
+}
+
+function drawBackground(ctx: CanvasRenderingContext2D, settings: BackgroundSettings, { video, image }: BackgroundLayers) {
+    const { width, height } = ctx.canvas;
+
+    switch (settings.effect) {
+        case 'dim':
+            drawCover(ctx, video, video.videoWidth, video.videoHeight, true);
+            ctx.fillStyle = `rgba(0, 0, 0, ${DIM_OPACITY})`;
+            ctx.fillRect(0, 0, width, height);
+            break;
+        case 'blur':
+            ctx.filter = `blur(${BLUR_PX}px)`;
+            drawCover(ctx, video, video.videoWidth, video.videoHeight, true);
+            ctx.filter = 'none';
+            break;
+        case 'image':
+            if (image?.complete && image.naturalWidth > 0) {
+                drawCover(ctx, image, image.naturalWidth, image.naturalHeight, false);
+                break;
+            }
+            ctx.fillStyle = settings.color;
+            ctx.fillRect(0, 0, width, height);
+            break;
+        default:
+            ctx.fillStyle = settings.color;
+            ctx.fillRect(0, 0, width, height);
+    }
+}
+
+/**
+ * Draws one mirrored camera frame with the background effect applied. With a
+ * mask the presenter stays untouched in front; without one (still loading or
+ * unavailable) the effect covers the whole frame.
+ */
+export function drawCameraFrame(ctx: CanvasRenderingContext2D, settings: BackgroundSettings, layers: BackgroundLayers) {
+    const { video, mask, scratch } = layers;
+    const { width, height } = ctx.canvas;
+
+    if (settings.effect === 'hidden') {
+        ctx.clearRect(0, 0, width, height);
+        return;
+    }
+    if (settings.effect === 'none') {
+        drawCover(ctx, video, video.videoWidth, video.videoHeight, true);
+        return;
+    }
+
+    drawBackground(ctx, settings, layers);
+    if (!mask) return;
+
+    // Presenter only: the feathered mask, then the video kept where the mask is
+    if (scratch.width !== width || scratch.height !== height) {
+        scratch.width = width;
+        scratch.height = height;
+    }
+    const cut = scratch.getContext('2d');
+    if (!cut) return;
+
+    cut.clearRect(0, 0, width, height);
+    cut.filter = `blur(${MASK_FEATHER_PX}px)`;
+    drawCover(cut, mask, video.videoWidth, video.videoHeight, true);
+    cut.filter = 'none';
+    cut.globalCompositeOperation = 'source-in';
+    drawCover(cut, video, video.videoWidth, video.videoHeight, true);
+    cut.globalCompositeOperation = 'source-over';
+
+    ctx.drawImage(scratch, 0, 0);
+}
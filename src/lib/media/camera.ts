@@ -0,0 +1,104 @@
+export interface CameraPreset {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+    frameRate: number;
+}
+
+export const CAMERA_PRESETS: CameraPreset[] = [
+    { id: '480p30', label: '640×480 · 30 fps', width: 640, height: 480, frameRate: 30 },
+    { id: '720p30', label: '1280×720 · 30 fps', width: 1280, height: 720, frameRate: 30 },
+    { id: '720p60', label: '1280×720 · 60 fps', width: 1280, height: 720, frameRate: 60 },
+    { id: '1080p30', label: '1920×1080 · 30 fps', width: 1920, height: 1080, frameRate: 30 },
+];
+
+export const DEFAULT_CAMERA_PRESET = '720p30';
+
+export interface CameraSettings {
+    // null picks the browser's default front camera
+    deviceId: string | null;
+    presetId: string;
+}
+
+export type CameraErrorKind = 'denied' | 'notFound' | 'inUse' | 'unsupported' | 'unknown';
+
+export interface CameraError {
+    kind: CameraErrorKind;
+    message: string;
+}
+
+const STORAGE_KEY = 'cv-gallery-camera';
+
+export function presetById(id: string): CameraPreset {
+    return CAMERA_PRESETS.find(preset => preset.id === id)
+        ?? CAMERA_PRESETS.find(preset => preset.id === DEFAULT_CAMERA_PRESET)!;
+}
+
+export function loadCameraSettings(): CameraSettings {
+    const defaults: CameraSettings = { deviceId: null, presetId: DEFAULT_CAMERA_PRESET };
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!stored || typeof stored !== 'object') return defaults;
+        return {
+            deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+            presetId: presetById(stored.presetId).id,
+        };
+    } catch {
+        return defaults;
+    }
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Private browsing or storage full; the choice just isn't remembered
+    }
+}
+
+export function cameraConstraints({ deviceId, presetId }: CameraSettings): MediaStreamConstraints {
+    const preset = presetById(presetId);
+    return {
+        video: {
+            // `exact` so a missing device fails instead of silently opening another one
+            ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+            width: { ideal: preset.width },
+            height: { ideal: preset.height },
+            frameRate: { ideal: preset.frameRate },
+        },
+    };
+}
+
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Labels stay empty until camera permission is granted
+    return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+}
+
+export function describeCameraError(err: unknown): CameraError {
+    const name = err instanceof DOMException ? err.name : '';
+
+    switch (name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return {
+                kind: 'denied',
+                message: 'Camera access was denied. Allow the camera in the browser\'s site settings, then retry.',
+            };
+        case 'NotFoundError':
+        case 'OverconstrainedError':
+            return { kind: 'notFound', message: 'No camera was found. Plug one in, or pick another device.' };
+        case 'NotReadableError':
+        case 'AbortError':
+            return {
+                kind: 'inUse',
+                message: 'The camera is in use by another app or tab. Close it, then retry.',
+            };
+        default:
+            if (!navigator.mediaDevices?.getUserMedia) {
+                return { kind: 'unsupported', message: 'This browser cannot access cameras (it needs HTTPS or localhost).' };
+            }
+            return { kind: 'unknown', message: `The camera could not be started: ${err instanceof Error ? err.message : String(err)}` };
+    }
+}
@@ -0,0 +1,87 @@
+export interface GifFrame {
+    image: ImageBitmap;
+    // Display time in milliseconds
+    duration: number;
+}
+
+export interface DecodedGif {
+    frames: GifFrame[];
+    width: number;
+    height: number;
+}
+
+// Browsers show frames with a delay of 10ms or less at 100ms; match that
+const MIN_FRAME_DURATION = 20;
+const DEFAULT_FRAME_DURATION = 100;
+// Every frame is kept as a full-size bitmap (4 bytes a pixel), and several GIFs
+// can be on the stage at once. Bigger GIFs stay a plain <img>: about 96MB each.
+const MAX_DECODED_PIXELS = 24_000_000;
+
+export async function isGifDecodingSupported() {
+    if (typeof ImageDecoder === 'undefined') return false;
+    try {
+        return await ImageDecoder.isTypeSupported('image/gif');
+    } catch {
+        return false;
+    }
+}
+
+export function closeGif(gif: DecodedGif) {
+    gif.frames.forEach(frame => frame.image.close());
+}
+
+/**
+ * Decodes every frame of a GIF into bitmaps with WebCodecs' ImageDecoder.
+ * Frames come back fully composited, so each one can be drawn on its own.
+ * Resolves to null when the browser has no ImageDecoder, or when all frames
+ * together would exceed MAX_DECODED_PIXELS.
+ */
+export async function decodeGifFrames(src: string, signal?: AbortSignal): Promise<DecodedGif | null> {
+    if (!(await isGifDecodingSupported())) return null;
+
+    const response = await fetch(src, { signal });
+    if (!response.ok) {
+        throw new Error(`Failed to load ${src}: ${response.status}`);
+    }
+
+    const decoder = new ImageDecoder({ data: await response.arrayBuffer(), type: 'image/gif' });
+    const frames: GifFrame[] = [];
+
+    try {
+        await decoder.tracks.ready;
+        const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+
+        for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+            if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+            const { image } = await decoder.decode({ frameIndex });
+            try {
+                const pixels = frameCount * image.displayWidth * image.displayHeight;
+                if (pixels > MAX_DECODED_PIXELS) {
+                    console.warn(`${src} has ${frameCount} frames of ${image.displayWidth}×${image.displayHeight}, too many to decode; showing it as <img>`);
+                    return null;
+                }
+
+                // VideoFrame durations are in microseconds
+                const duration = image.duration ? image.duration / 1000 : DEFAULT_FRAME_DURATION;
+                frames.push({
+                    image: await createImageBitmap(image),
+                    duration: duration < MIN_FRAME_DURATION ? DEFAULT_FRAME_DURATION : duration,
+                });
+            } finally {
+                image.close();
+            }
+        }
+
+        return {
+            frames,
+            width: frames[0]?.image.width ?? 0,
+            height: frames[0]?.image.height ?? 0,
+        };
+    } catch (err) {
+        frames.forEach(frame => frame.image.close());
+        throw err;
+    } finally {
+        decoder.close();
+    }
+}
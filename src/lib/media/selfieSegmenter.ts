@@ -0,0 +1,88 @@
+import { withTimeout } from '@/lib/tracking/mediapipeProvider';
+
+// Where the Selfie Segmentation assets are served from; `npm install` copies them
+// next to the hand tracking ones
+export const SEGMENTATION_ASSET_BASE = process.env.NEXT_PUBLIC_SEGMENTATION_ASSET_BASE ?? '/mediapipe/selfie_segmentation';
+
+const INITIALIZE_TIMEOUT = 20000;
+
+export interface SelfieSegmenter {
+    // Latest person mask (stretched over the video when drawn), or null before the first result
+    readonly mask: HTMLCanvasElement | null;
+    // Starts segmenting `video`; skipped while the previous frame is still running
+    send(video: HTMLVideoElement): void;
+    close(): void;
+}
+
+/**
+ * Loads MediaPipe Selfie Segmentation. The graph reuses its output buffer, so
+ * each mask is copied into a canvas of our own as it arrives.
+ */
+export async function createSelfieSegmenter(assetBaseUrl = SEGMENTATION_ASSET_BASE): Promise<SelfieSegmenter> {
+    const baseUrl = assetBaseUrl.replace(/\/$/, '');
+
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl}/selfie_segmentation.binarypb`, { method: 'HEAD' });
+    } catch {
+        throw new Error(`Segmentation model could not be reached at ${baseUrl}`);
+    }
+    if (!response.ok) {
+        throw new Error(`Segmentation model not found at ${baseUrl} (${response.status}). Run \`npm run mediapipe:assets\`.`);
+    }
+
+    const { SelfieSegmentation } = await import('@mediapipe/selfie_segmentation');
+    const segmentation = new SelfieSegmentation({
+        locateFile: (file: string) => `${baseUrl}/${file}`,
+    });
+    // The landscape model is the faster one
+    segmentation.setOptions({ modelSelection: 1 });
+
+    let mask: HTMLCanvasElement | null = null;
+    let busy = false;
+    let closed = false;
+
+    segmentation.onResults(results => {
+        const source = results.segmentationMask;
+        const { width, height } = source;
+
+        mask ??= document.createElement('canvas');
+        if (mask.width !== width || mask.height !== height) {
+            mask.width = width;
+            mask.height = height;
+        }
+        const ctx = mask.getContext('2d');
+        ctx?.clearRect(0, 0, width, height);
+        ctx?.drawImage(source, 0, 0, width, height);
+    });
+
+    await withTimeout(
+        segmentation.initialize(),
+        INITIALIZE_TIMEOUT,
+        `Segmentation model at ${baseUrl} did not load within ${INITIALIZE_TIMEOUT / 1000}s`
+    );
+
+    return {
+        get mask() {
+            return mask;
+        },
+
+        send(video) {
+            if (busy || closed || video.readyState < 2) return;
+            busy = true;
+            segmentation.send({ image: video })
+                .catch(() => {
+                    // Dropped frames just keep the previous mask
+                })
+                .finally(() => {
+                    busy = false;
+                });
+        },
+
+        close() {
+            closed = true;
+            mask = null;
+            segmentation.close();
+        },
+    };
+}
@@ -0,0 +1,30 @@
+import { downloadBlob } from '@/lib/download';
+
+// Preferred first; the browser picks the first one it can encode
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function pickRecordingType(): string | null {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Asks the browser to capture this tab, which records everything composited on
+ * screen: camera background, stage, gallery and hand cursors. Browsers only
+ * allow this from a key press or click.
+ */
+export async function captureCurrentTab(frameRate = 30): Promise<MediaStream> {
+    // preferCurrentTab and selfBrowserSurface are Chromium hints that preselect this tab
+    const options = {
+        video: { frameRate: { ideal: frameRate }, displaySurface: 'browser' },
+        audio: false,
+        preferCurrentTab: true,
+        selfBrowserSurface: 'include',
+    } as DisplayMediaStreamOptions;
+    return navigator.mediaDevices.getDisplayMedia(options);
+}
+
+export function downloadRecording(blob: Blob, startedAt: Date) {
+    const stamp = startedAt.toISOString().replace(/[:.]/g, '-');
+    downloadBlob(blob, `cv-gallery-${stamp}.webm`);
+}
@@ -0,0 +1,43 @@
+import type { TalkTimerConfig } from '@/lib/talkTimer';
+
+// The stage window and the presenter view talk over this BroadcastChannel
+export const PRESENTER_CHANNEL = 'cv-gallery-presenter';
+
+export interface PresenterItem {
+    title: string;
+    src: string;
+    mediaType: string;
+    notes: string;
+    durationMs: number;
+    autoAdvance: boolean;
+}
+
+export interface PresenterState {
+    // Script title, or null when no script is loaded
+    title: string | null;
+    index: number;
+    total: number;
+    current: PresenterItem | null;
+    next: PresenterItem | null;
+    // Wall-clock (Date.now()) times, since performance.now() differs per window
+    itemStartedAt: number;
+    talk: {
+        elapsedMs: number;
+        running: boolean;
+        sentAt: number;
+        config: TalkTimerConfig;
+    };
+}
+
+// 'end' unloads the script, after which next/prev walk the album again
+export type PresenterCommand = 'next' | 'prev' | 'end';
+
+export type PresenterMessage =
+    | { type: 'state'; state: PresenterState }
+    // Sent by a presenter view when it opens, asking for the current state
+    | { type: 'hello' }
+    | { type: 'command'; command: PresenterCommand };
+
+export function presenterChannel() {
+    return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(PRESENTER_CHANNEL);
+}
@@ -0,0 +1,59 @@
+export interface ScriptItem {
+    // Gallery image id, e.g. "image1" or "applications/demo"
+    id: string;
+    notes: string;
+    // Planned time on this item; 0 when not planned
+    durationMs: number;
+    // Move on by itself once durationMs has passed
+    autoAdvance: boolean;
+}
+
+export interface PresentationScript {
+    title: string;
+    items: ScriptItem[];
+}
+
+/**
+ * Reads a script file:
+ *
+ *   { "title": "My talk", "items": [{ "id": "image1", "notes": "...", "duration": 45, "autoAdvance": true }] }
+ *
+ * `duration` is in seconds. Items whose id is not in the gallery are left out
+ * and reported in `problems`.
+ */
+export function parseScript(text: string, galleryIds: Set<string>): { script: PresentationScript; problems: string[] } {
+    const data = JSON.parse(text);
+    if (!data || !Array.isArray(data.items)) {
+        throw new Error('Script must have an "items" array');
+    }
+
+    const problems: string[] = [];
+    const items: ScriptItem[] = [];
+
+    data.items.forEach((item: Record<string, unknown>, index: number) => {
+        if (typeof item?.id !== 'string') {
+            problems.push(`items[${index}]: missing "id"`);
+            return;
+        }
+        if (!galleryIds.has(item.id)) {
+            problems.push(`items[${index}]: "${item.id}" is not in the gallery`);
+            return;
+        }
+        const duration = typeof item.duration === 'number' && item.duration > 0 ? item.duration * 1000 : 0;
+        items.push({
+            id: item.id,
+            notes: typeof item.notes === 'string' ? item.notes : '',
+            durationMs: duration,
+            autoAdvance: item.autoAdvance === true && duration > 0,
+        });
+    });
+
+    if (items.length === 0) {
+        throw new Error(`Script has no usable items${problems.length ? `: ${problems.join('; ')}` : ''}`);
+    }
+
+    return {
+        script: { title: typeof data.title === 'string' ? data.title : 'Presentation', items },
+        problems,
+    };
+}
@@ -0,0 +1,20 @@
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Maps a normalized camera-space point to viewport pixels. The camera view is
+ * mirrored, so x is flipped.
+ */
+export function toScreenPoint(point: Point): Point {
+    return {
+        x: (1 - point.x) * window.innerWidth,
+        y: point.y * window.innerHeight,
+    };
+}
+
+// Whether a viewport point lies within an element's bounding rect, edges included
+export function isInside(point: Point, rect: DOMRect) {
+    return point.x >= rect.left && point.x <= rect.right && point.y >= rect.top && point.y <= rect.bottom;
+}
@@ -0,0 +1,39 @@
+// Elapsed time from timestamps rather than ticking counters, so it never
+// drifts and survives pauses. All times are performance.now() milliseconds.
+export interface Stopwatch {
+    startedAt: number | null;
+    // Set while paused
+    pausedAt: number | null;
+    // Total time spent paused before the current pause
+    pausedMs: number;
+}
+
+export const IDLE_STOPWATCH: Stopwatch = { startedAt: null, pausedAt: null, pausedMs: 0 };
+
+export function startStopwatch(now: number): Stopwatch {
+    return { startedAt: now, pausedAt: null, pausedMs: 0 };
+}
+
+export function pauseStopwatch(stopwatch: Stopwatch, now: number): Stopwatch {
+    if (stopwatch.startedAt === null || stopwatch.pausedAt !== null) return stopwatch;
+    return { ...stopwatch, pausedAt: now };
+}
+
+export function resumeStopwatch(stopwatch: Stopwatch, now: number): Stopwatch {
+    if (stopwatch.pausedAt === null) return stopwatch;
+    return { ...stopwatch, pausedAt: null, pausedMs: stopwatch.pausedMs + now - stopwatch.pausedAt };
+}
+
+export function stopwatchElapsed(stopwatch: Stopwatch, now: number): number {
+    if (stopwatch.startedAt === null) return 0;
+    return (stopwatch.pausedAt ?? now) - stopwatch.startedAt - stopwatch.pausedMs;
+}
+
+// h:mm:ss once past an hour, m:ss before
+export function formatElapsed(ms: number) {
+    const total = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = (total % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,55 @@
+export type TalkTimerMode = 'stopwatch' | 'countdown';
+
+// How close the talk is to its planned length
+export type TalkTimerPhase = 'normal' | 'warning' | 'critical' | 'overtime';
+
+export interface TalkTimerConfig {
+    mode: TalkTimerMode;
+    // Planned talk length
+    durationMs: number;
+    // Time left at which the timer turns amber, then red
+    warningAtMs: number;
+    criticalAtMs: number;
+}
+
+const MINUTE = 60_000;
+
+export const DEFAULT_TALK_TIMER_CONFIG: TalkTimerConfig = {
+    mode: 'stopwatch',
+    durationMs: 20 * MINUTE,
+    warningAtMs: 5 * MINUTE,
+    criticalAtMs: 1 * MINUTE,
+};
+
+function minutesParam(value: string | null): number | null {
+    if (value === null || value.trim() === '') return null;
+    const minutes = Number(value);
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes * MINUTE : null;
+}
+
+/**
+ * Reads the talk timer settings from the page URL, in minutes:
+ *
+ *   ?talk=30            planned length
+ *   ?warn=5,1           amber at 5 minutes left, red at 1
+ *   ?countdown          count down instead of up
+ */
+export function talkTimerConfigFromSearch(search: string): TalkTimerConfig {
+    const params = new URLSearchParams(search);
+    const [warning, critical] = (params.get('warn') ?? '').split(',').map(minutesParam);
+
+    return {
+        mode: params.has('countdown') ? 'countdown' : DEFAULT_TALK_TIMER_CONFIG.mode,
+        durationMs: minutesParam(params.get('talk')) ?? DEFAULT_TALK_TIMER_CONFIG.durationMs,
+        warningAtMs: warning ?? DEFAULT_TALK_TIMER_CONFIG.warningAtMs,
+        criticalAtMs: critical ?? DEFAULT_TALK_TIMER_CONFIG.criticalAtMs,
+    };
+}
+
+export function talkTimerPhase(elapsedMs: number, config: TalkTimerConfig): TalkTimerPhase {
+    const remaining = config.durationMs - elapsedMs;
+    if (remaining < 0) return 'overtime';
+    if (remaining <= config.criticalAtMs) return 'critical';
+    if (remaining <= config.warningAtMs) return 'warning';
+    return 'normal';
+}
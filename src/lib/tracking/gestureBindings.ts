@@ -0,0 +1,247 @@
+import { downloadBlob } from '@/lib/download';
+import type { Handedness } from './types';
+
+export interface ActionInfo {
+    label: string;
+}
+
+// Everything a discrete gesture can do. Components subscribe to these instead
+// of to raw gestures, so a presenter can move them to other gestures.
+export const GESTURE_ACTIONS = {
+    none: { label: 'Nothing' },
+    next: { label: 'Next image' },
+    prev: { label: 'Previous image' },
+    nextAlbum: { label: 'Next album' },
+    prevAlbum: { label: 'Previous album' },
+    dismiss: { label: 'Close front image' },
+    clear: { label: 'Clear stage' },
+    compare: { label: 'Compare: side by side / wipe / off' },
+    toggleRecording: { label: 'Pause / resume recording (keep holding to stop)' },
+    playPause: { label: 'Play / pause video or GIF' },
+    muteOrStep: { label: 'Mute video / next GIF frame' },
+    toggleTimer: { label: 'Pause / resume talk timer' },
+    resetTimer: { label: 'Reset talk timer' },
+} satisfies Record<string, ActionInfo>;
+
+export type GestureAction = keyof typeof GESTURE_ACTIONS;
+
+// What a pinching hand does; `short` is how on-screen hints name it
+export const PINCH_ACTIONS = {
+    none: { label: 'Nothing', short: 'Nothing' },
+    drag: { label: 'Pick up, move and dismiss', short: 'Select & Move' },
+    zoomPan: { label: 'Zoom or pan (first movement decides), scrub media', short: 'Zoom & Pan' },
+    zoom: { label: 'Zoom', short: 'Zoom' },
+    pan: { label: 'Pan', short: 'Pan' },
+} satisfies Record<string, ActionInfo & { short: string }>;
+
+export type PinchAction = keyof typeof PINCH_ACTIONS;
+
+// `short` is how on-screen hints name the gesture
+export const GESTURE_TRIGGERS = {
+    'thumbsUp.Right': { label: '👍 Right hand', short: '👍' },
+    'thumbsDown.Right': { label: '👎 Right hand', short: '👎' },
+    'thumbsUp.Left': { label: '👍 Left hand', short: 'Left 👍' },
+    'thumbsDown.Left': { label: '👎 Left hand', short: 'Left 👎' },
+    'palmHold.Right': { label: '✋ Right palm hold', short: '✋' },
+    'palmHold.Left': { label: '✋ Left palm hold', short: 'Left ✋' },
+    'swipeLeft.Left': { label: '👋 Left hand swipe left', short: '👋 Left swipe' },
+    'swipeRight.Left': { label: '👋 Left hand swipe right', short: '👋 Left swipe' },
+    'swipeLeft.Right': { label: '👋 Right hand swipe left', short: '👋 Swipe' },
+    'swipeRight.Right': { label: '👋 Right hand swipe right', short: '👋 Swipe' },
+    bothPalms: { label: '✋✋ Both palms', short: '✋✋' },
+    bothThumbsUp: { label: '👍👍 Both thumbs up', short: '👍👍' },
+    bothThumbsDown: { label: '👎👎 Both thumbs down', short: '👎👎' },
+} satisfies Record<string, ActionInfo & { short: string }>;
+
+export type GestureTrigger = keyof typeof GESTURE_TRIGGERS;
+
+export interface GestureBindings {
+    gestures: Record<GestureTrigger, GestureAction>;
+    pinch: Record<Handedness, PinchAction>;
+    // Trained poses by pose id, for either hand
+    custom: Record<string, GestureAction>;
+}
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+    gestures: {
+        'thumbsUp.Right': 'next',
+        'thumbsDown.Right': 'prev',
+        'thumbsUp.Left': 'playPause',
+        'thumbsDown.Left': 'muteOrStep',
+        'palmHold.Right': 'compare',
+        'palmHold.Left': 'toggleRecording',
+        'swipeLeft.Left': 'nextAlbum',
+        'swipeRight.Left': 'prevAlbum',
+        'swipeLeft.Right': 'none',
+        'swipeRight.Right': 'none',
+        bothPalms: 'clear',
+        bothThumbsUp: 'toggleTimer',
+        bothThumbsDown: 'resetTimer',
+    },
+    pinch: {
+        Right: 'drag',
+        Left: 'zoomPan',
+    },
+    custom: {},
+};
+
+export const BINDINGS_FORMAT_VERSION = 1;
+
+const STORAGE_KEY = 'cv-gallery-bindings';
+
+// Short name of the first gesture bound to `action`, or null when none is
+export function gestureHint(bindings: GestureBindings, action: GestureAction): string | null {
+    const trigger = (Object.keys(bindings.gestures) as GestureTrigger[]).find(key => bindings.gestures[key] === action);
+    return trigger ? GESTURE_TRIGGERS[trigger].short : null;
+}
+
+// Binds a trained pose; 'none' removes the binding
+export function bindCustomPose(bindings: GestureBindings, poseId: string, action: GestureAction): GestureBindings {
+    const custom = { ...bindings.custom };
+    if (action === 'none') delete custom[poseId];
+    else custom[poseId] = action;
+    return { ...bindings, custom };
+}
+
+const isKeyOf = <T extends object>(table: T, key: unknown): key is keyof T =>
+    typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+
+/**
+ * Reads bindings from untrusted JSON (localStorage or an imported file).
+ * Unknown triggers and actions are dropped and missing ones take the default,
+ * so files from older or newer versions still load.
+ */
+export function parseGestureBindings(value: unknown): GestureBindings {
+    const source = value && typeof value === 'object' ? value as Partial<Record<keyof GestureBindings, unknown>> : {};
+    const gestures = source.gestures && typeof source.gestures === 'object' ? source.gestures as Record<string, unknown> : {};
+    const pinch = source.pinch && typeof source.pinch === 'object' ? source.pinch as Record<string, unknown> : {};
+    const custom = source.custom && typeof source.custom === 'object' ? source.custom as Record<string, unknown> : {};
+
+    const parsed: GestureBindings = {
+        gestures: { ...DEFAULT_GESTURE_BINDINGS.gestures },
+        pinch: { ...DEFAULT_GESTURE_BINDINGS.pinch },
+        custom: {},
+    };
+    for (const trigger of Object.keys(parsed.gestures) as GestureTrigger[]) {
+        const action = gestures[trigger];
+        if (isKeyOf(GESTURE_ACTIONS, action)) parsed.gestures[trigger] = action;
+    }
+    for (const hand of ['Left', 'Right'] as Handedness[]) {
+        const action = pinch[hand];
+        if (isKeyOf(PINCH_ACTIONS, action)) parsed.pinch[hand] = action;
+    }
+    for (const [poseId, action] of Object.entries(custom)) {
+        if (isKeyOf(GESTURE_ACTIONS, action) && action !== 'none') parsed.custom[poseId] = action;
+    }
+    return parsed;
+}
+
+export function loadGestureBindings(): GestureBindings {
+    try {
+        return parseGestureBindings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    } catch {
+        return DEFAULT_GESTURE_BINDINGS;
+    }
+}
+
+export function saveGestureBindings(bindings: GestureBindings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    } catch {
+        // Private browsing or storage full; the mapping just isn't remembered
+    }
+}
+
+export function serializeGestureBindings(bindings: GestureBindings): string {
+    return JSON.stringify({ version: BINDINGS_FORMAT_VERSION, ...bindings }, null, 2);
+}
+
+export function importGestureBindings(text: string): GestureBindings {
+    let data: { version?: unknown };
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Bindings file is not valid JSON: ${(err as Error).message}`);
+    }
+    if (!data || typeof data !== 'object') {
+        throw new Error('Bindings file does not contain a bindings object');
+    }
+    if (data.version !== BINDINGS_FORMAT_VERSION) {
+        throw new Error(`Unsupported bindings version: ${data.version ?? 'missing'}`);
+    }
+    return parseGestureBindings(data);
+}
+
+// Source of an action; null for gestures made with both hands
+export interface GestureActionEvent {
+    hand: Handedness | null;
+}
+
+export type GestureActionHandler = (event: GestureActionEvent) => void;
+
+/**
+ * Where bound actions are delivered. Also answers which pinch action a hand
+ * has, since pinches are continuous and handled by the components themselves.
+ */
+export function createActionBus(initialBindings: GestureBindings = DEFAULT_GESTURE_BINDINGS) {
+    let bindings = initialBindings;
+    // Set while the gesture trainer records, so demonstrated poses do nothing
+    let paused = false;
+    const handlers = new Map<GestureAction, Set<GestureActionHandler>>();
+
+    return {
+        get bindings() {
+            return bindings;
+        },
+
+        setBindings(next: GestureBindings) {
+            bindings = next;
+        },
+
+        setPaused(next: boolean) {
+            paused = next;
+        },
+
+        pinchAction(hand: Handedness): PinchAction {
+            return bindings.pinch[hand];
+        },
+
+        // The hand whose pinch picks things up; its cursor also hovers the gallery
+        dragHand(): Handedness | null {
+            if (bindings.pinch.Right === 'drag') return 'Right';
+            if (bindings.pinch.Left === 'drag') return 'Left';
+            return null;
+        },
+
+        trigger(trigger: GestureTrigger, event: GestureActionEvent) {
+            const action = bindings.gestures[trigger];
+            if (paused || action === 'none') return;
+            handlers.get(action)?.forEach(handler => handler(event));
+        },
+
+        triggerPose(poseId: string, event: GestureActionEvent) {
+            const action = bindings.custom[poseId];
+            if (paused || !action) return;
+            handlers.get(action)?.forEach(handler => handler(event));
+        },
+
+        on(action: GestureAction, handler: GestureActionHandler) {
+            let set = handlers.get(action);
+            if (!set) {
+                set = new Set();
+                handlers.set(action, set);
+            }
+            set.add(handler);
+            return () => {
+                set.delete(handler);
+            };
+        },
+    };
+}
+
+export type ActionBus = ReturnType<typeof createActionBus>;
+
+export function downloadGestureBindings(bindings: GestureBindings) {
+    const blob = new Blob([serializeGestureBindings(bindings)], { type: 'application/json' });
+    downloadBlob(blob, 'gesture-bindings.json');
+}
@@ -0,0 +1,345 @@
+import { toScreenPoint, type Point } from '@/lib/screen';
+import { PINCH_THRESHOLD } from './gestures';
+import type { PoseClassifier, PoseMatch } from './poseClassifier';
+import type { HandData, Handedness } from './types';
+
+export interface GestureEventMap {
+    pinchStart: { hand: Handedness; position: Point };
+    pinchMove: { hand: Handedness; position: Point; origin: Point; delta: Point };
+    // `lost` is set when the hand left the frame instead of opening the pinch
+    pinchEnd: { hand: Handedness; position: Point; origin: Point; lost: boolean };
+    thumbsUp: { hand: Handedness };
+    thumbsDown: { hand: Handedness };
+    palmHold: { hand: Handedness };
+    bothPalms: Record<string, never>;
+    // Both hands showing the same thumb pose; replaces the single-hand events
+    bothThumbsUp: Record<string, never>;
+    bothThumbsDown: Record<string, never>;
+    // Fast horizontal hand movement, in screen direction
+    swipe: { hand: Handedness; direction: 'left' | 'right' };
+    // A pose taught in the gesture trainer, by pose id
+    customPose: { hand: Handedness; pose: string };
+}
+
+export type GestureEventType = keyof GestureEventMap;
+export type GestureHandler<K extends GestureEventType> = (event: GestureEventMap[K]) => void;
+
+export interface GestureConfig {
+    pinch: {
+        // Hysteresis: the pinch starts below enterDistance and ends above exitDistance
+        enterDistance: number;
+        exitDistance: number;
+        // How long the hand must stay below/above the threshold before the state flips
+        minHoldMs: number;
+        releaseMs: number;
+        // How long a pinching hand may vanish from tracking before the pinch ends
+        lostMs: number;
+    };
+    thumbs: {
+        minHoldMs: number;
+        // Holding the pose repeats the event after this long
+        cooldownMs: number;
+    };
+    palm: {
+        minHoldMs: number;
+        cooldownMs: number;
+    };
+    // Both hands showing the same thumb pose; fires once per hold
+    bothThumbs: {
+        minHoldMs: number;
+        cooldownMs: number;
+    };
+    swipe: {
+        // Horizontal travel, as a fraction of the viewport width, within windowMs
+        minDistance: number;
+        windowMs: number;
+        cooldownMs: number;
+    };
+    // Trained poses fire once per hold
+    custom: {
+        minHoldMs: number;
+        cooldownMs: number;
+    };
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+    pinch: {
+        enterDistance: PINCH_THRESHOLD,
+        exitDistance: PINCH_THRESHOLD * 1.25,
+        minHoldMs: 30,
+        releaseMs: 80,
+        lostMs: 150,
+    },
+    thumbs: {
+        minHoldMs: 120,
+        cooldownMs: 1000,
+    },
+    palm: {
+        minHoldMs: 250,
+        cooldownMs: 2000,
+    },
+    bothThumbs: {
+        minHoldMs: 120,
+        cooldownMs: 2000,
+    },
+    swipe: {
+        minDistance: 0.25,
+        windowMs: 300,
+        cooldownMs: 800,
+    },
+    custom: {
+        minHoldMs: 200,
+        cooldownMs: 1000,
+    },
+};
+
+interface PinchTracker {
+    active: boolean;
+    // When the raw reading first disagreed with `active`, or null when it agrees
+    pendingSince: number | null;
+    lostSince: number | null;
+    origin: Point;
+    position: Point;
+}
+
+interface PoseTracker {
+    since: number | null;
+    lastFired: number;
+    firedThisHold: boolean;
+}
+
+interface SwipeTracker {
+    // Recent wrist positions in screen pixels
+    samples: { x: number; y: number; time: number }[];
+    lastFired: number;
+}
+
+interface HandTrackers {
+    pinch: PinchTracker;
+    swipe: SwipeTracker;
+    thumbsUp: PoseTracker;
+    thumbsDown: PoseTracker;
+    palm: PoseTracker;
+    // The trained pose the hand currently matches; the hold restarts when it changes
+    custom: PoseTracker & { match: PoseMatch | null };
+}
+
+export interface GestureEngine {
+    update(leftHand: HandData | null, rightHand: HandData | null, now: number): void;
+    on<K extends GestureEventType>(type: K, handler: GestureHandler<K>): () => void;
+    isPinching(hand: Handedness): boolean;
+    configure(config: Partial<GestureConfig>): void;
+    // Null turns trained poses off
+    setPoseClassifier(classifier: PoseClassifier | null): void;
+    currentPose(hand: Handedness): PoseMatch | null;
+}
+
+function createHandTrackers(): HandTrackers {
+    const pose = (): PoseTracker => ({ since: null, lastFired: -Infinity, firedThisHold: false });
+    return {
+        pinch: { active: false, pendingSince: null, lostSince: null, origin: { x: 0, y: 0 }, position: { x: 0, y: 0 } },
+        swipe: { samples: [], lastFired: -Infinity },
+        thumbsUp: pose(),
+        thumbsDown: pose(),
+        palm: pose(),
+        custom: { ...pose(), match: null },
+    };
+}
+
+export function createGestureEngine(initialConfig: Partial<GestureConfig> = {}): GestureEngine {
+    let config: GestureConfig = { ...DEFAULT_GESTURE_CONFIG, ...initialConfig };
+    const handlers = new Map<GestureEventType, Set<GestureHandler<GestureEventType>>>();
+    const trackers: Record<Handedness, HandTrackers> = {
+        Left: createHandTrackers(),
+        Right: createHandTrackers(),
+    };
+    const bothPalms: PoseTracker = { since: null, lastFired: -Infinity, firedThisHold: false };
+    const bothThumbsUp: PoseTracker = { since: null, lastFired: -Infinity, firedThisHold: false };
+    const bothThumbsDown: PoseTracker = { since: null, lastFired: -Infinity, firedThisHold: false };
+    // Set for the current update when both hands show the same thumb pose
+    let pairedThumbs = { up: false, down: false };
+    let poseClassifier: PoseClassifier | null = null;
+
+    const emit = <K extends GestureEventType>(type: K, event: GestureEventMap[K]) => {
+        handlers.get(type)?.forEach(handler => (handler as GestureHandler<K>)(event));
+    };
+
+    const endPinch = (hand: Handedness, lost: boolean) => {
+        const pinch = trackers[hand].pinch;
+        pinch.active = false;
+        pinch.pendingSince = null;
+        pinch.lostSince = null;
+        emit('pinchEnd', { hand, position: pinch.position, origin: pinch.origin, lost });
+    };
+
+    const updatePinch = (hand: Handedness, data: HandData | null, now: number) => {
+        const pinch = trackers[hand].pinch;
+        const { enterDistance, exitDistance, minHoldMs, releaseMs, lostMs } = config.pinch;
+
+        if (!data) {
+            pinch.pendingSince = null;
+            if (!pinch.active) return;
+            pinch.lostSince ??= now;
+            if (now - pinch.lostSince >= lostMs) {
+                endPinch(hand, true);
+            }
+            return;
+        }
+        pinch.lostSince = null;
+
+        const position = toScreenPoint(data.pinchPosition);
+        // Thumb poses bring the fingertips close together; never treat them as a pinch
+        const isThumbPose = data.isThumbsUp || data.isThumbsDown;
+        const wantsActive = pinch.active
+            ? data.pinchDistance < exitDistance
+            : data.pinchDistance < enterDistance && !isThumbPose;
+
+        if (wantsActive === pinch.active) {
+            pinch.pendingSince = null;
+        } else {
+            pinch.pendingSince ??= now;
+            const required = pinch.active ? releaseMs : minHoldMs;
+
+            if (now - pinch.pendingSince >= required) {
+                if (pinch.active) {
+                    endPinch(hand, false);
+                } else {
+                    pinch.active = true;
+                    pinch.pendingSince = null;
+                    pinch.origin = position;
+                    pinch.position = position;
+                    emit('pinchStart', { hand, position });
+                }
+                return;
+            }
+        }
+
+        if (pinch.active && (position.x !== pinch.position.x || position.y !== pinch.position.y)) {
+            const delta = { x: position.x - pinch.position.x, y: position.y - pinch.position.y };
+            pinch.position = position;
+            emit('pinchMove', { hand, position, origin: pinch.origin, delta });
+        }
+    };
+
+    // Fires once the pose has been held for minHoldMs and the cooldown has passed.
+    // With `repeat`, keeping the pose fires again every cooldownMs.
+    const updatePose = (tracker: PoseTracker, held: boolean, now: number, minHoldMs: number, cooldownMs: number, repeat: boolean) => {
+        if (!held) {
+            tracker.since = null;
+            tracker.firedThisHold = false;
+            return false;
+        }
+        tracker.since ??= now;
+        if (now - tracker.since < minHoldMs || now - tracker.lastFired < cooldownMs) return false;
+        if (tracker.firedThisHold && !repeat) return false;
+        tracker.lastFired = now;
+        tracker.firedThisHold = true;
+        return true;
+    };
+
+    const updateSwipe = (hand: Handedness, data: HandData | null, now: number) => {
+        const swipe = trackers[hand].swipe;
+        const { minDistance, windowMs, cooldownMs } = config.swipe;
+
+        // Pinches move the hand on purpose; only free hands swipe
+        if (!data || trackers[hand].pinch.active) {
+            swipe.samples = [];
+            return;
+        }
+
+        const wrist = toScreenPoint(data.landmarks[0]);
+        swipe.samples = [...swipe.samples.filter(sample => now - sample.time <= windowMs), { ...wrist, time: now }];
+
+        const first = swipe.samples[0];
+        const dx = wrist.x - first.x;
+        const dy = wrist.y - first.y;
+
+        if (Math.abs(dx) >= minDistance * window.innerWidth && Math.abs(dy) < Math.abs(dx) * 0.5 && now - swipe.lastFired >= cooldownMs) {
+            swipe.lastFired = now;
+            swipe.samples = [];
+            emit('swipe', { hand, direction: dx > 0 ? 'right' : 'left' });
+        }
+    };
+
+    const updateHand = (hand: Handedness, data: HandData | null, now: number) => {
+        updatePinch(hand, data, now);
+        updateSwipe(hand, data, now);
+
+        const state = trackers[hand];
+        const pinching = state.pinch.active;
+        const { thumbs, palm } = config;
+
+        if (updatePose(state.thumbsUp, !!data?.isThumbsUp && !pinching && !pairedThumbs.up, now, thumbs.minHoldMs, thumbs.cooldownMs, true)) {
+            emit('thumbsUp', { hand });
+        }
+        if (updatePose(state.thumbsDown, !!data?.isThumbsDown && !pinching && !pairedThumbs.down, now, thumbs.minHoldMs, thumbs.cooldownMs, true)) {
+            emit('thumbsDown', { hand });
+        }
+        if (updatePose(state.palm, !!data?.isOpenPalm, now, palm.minHoldMs, palm.cooldownMs, false)) {
+            emit('palmHold', { hand });
+        }
+
+        const custom = state.custom;
+        const match = data && poseClassifier && !pinching ? poseClassifier.classify(data.landmarks, data.physicalHand, data.aspect) : null;
+        if (match?.poseId !== custom.match?.poseId) {
+            custom.since = null;
+            custom.firedThisHold = false;
+        }
+        custom.match = match;
+        if (match && updatePose(custom, true, now, config.custom.minHoldMs, config.custom.cooldownMs, false)) {
+            emit('customPose', { hand, pose: match.poseId });
+        }
+    };
+
+    return {
+        update(leftHand, rightHand, now) {
+            pairedThumbs = {
+                up: !!leftHand?.isThumbsUp && !!rightHand?.isThumbsUp,
+                down: !!leftHand?.isThumbsDown && !!rightHand?.isThumbsDown,
+            };
+            updateHand('Left', leftHand, now);
+            updateHand('Right', rightHand, now);
+
+            // Paired thumbs fire once per hold, like palms
+            if (updatePose(bothThumbsUp, pairedThumbs.up, now, config.bothThumbs.minHoldMs, config.bothThumbs.cooldownMs, false)) {
+                emit('bothThumbsUp', {});
+            }
+            if (updatePose(bothThumbsDown, pairedThumbs.down, now, config.bothThumbs.minHoldMs, config.bothThumbs.cooldownMs, false)) {
+                emit('bothThumbsDown', {});
+            }
+
+            const palms = !!leftHand?.isOpenPalm && !!rightHand?.isOpenPalm;
+            if (updatePose(bothPalms, palms, now, config.palm.minHoldMs, config.palm.cooldownMs, false)) {
+                emit('bothPalms', {});
+            }
+        },
+
+        on(type, handler) {
+            let set = handlers.get(type);
+            if (!set) {
+                set = new Set();
+                handlers.set(type, set);
+            }
+            set.add(handler as GestureHandler<GestureEventType>);
+            return () => {
+                set.delete(handler as GestureHandler<GestureEventType>);
+            };
+        },
+
+        isPinching(hand) {
+            return trackers[hand].pinch.active;
+        },
+
+        configure(partial) {
+            config = { ...config, ...partial };
+        },
+
+        setPoseClassifier(classifier) {
+            poseClassifier = classifier;
+        },
+
+        currentPose(hand) {
+            return trackers[hand].custom.match;
+        },
+    };
+}
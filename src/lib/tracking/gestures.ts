@@ -0,0 +1,109 @@
+import type { HandData, Landmark, TrackedHand } from './types';
+
+export const PINCH_THRESHOLD = 0.08;
+export const THUMB_GESTURE_THRESHOLD = 0.06; // Minimum vertical distance for thumb gesture
+
+export function calculatePinch(landmarks: Landmark[]): { isPinching: boolean; position: { x: number; y: number }; strength: number; distance: number } {
+    const thumbTip = landmarks[4];
+    const indexTip = landmarks[8];
+
+    const distance = Math.sqrt(
+        Math.pow(thumbTip.x - indexTip.x, 2) +
+        Math.pow(thumbTip.y - indexTip.y, 2) +
+        Math.pow(thumbTip.z - indexTip.z, 2)
+    );
+
+    const isPinching = distance < PINCH_THRESHOLD;
+    const strength = Math.max(0, 1 - distance / PINCH_THRESHOLD);
+
+    return {
+        isPinching,
+        position: {
+            x: (thumbTip.x + indexTip.x) / 2,
+            y: (thumbTip.y + indexTip.y) / 2,
+        },
+        strength,
+        distance,
+    };
+}
+
+export interface FingerCurls {
+    index: boolean;
+    middle: boolean;
+    ring: boolean;
+    pinky: boolean;
+}
+
+// A finger counts as curled when its tip is below its PIP joint in y
+export function detectFingerCurls(landmarks: Landmark[]): FingerCurls {
+    return {
+        index: landmarks[8].y > landmarks[6].y,
+        middle: landmarks[12].y > landmarks[10].y,
+        ring: landmarks[16].y > landmarks[14].y,
+        pinky: landmarks[20].y > landmarks[18].y,
+    };
+}
+
+// Thumb tip height above its base joint: positive = up, negative = down
+export function thumbVerticalDelta(landmarks: Landmark[]): number {
+    return landmarks[1].y - landmarks[4].y;
+}
+
+export function detectThumbGesture(landmarks: Landmark[]): { isThumbsUp: boolean; isThumbsDown: boolean } {
+    const thumbTip = landmarks[4];
+    // Wrist for reference
+    const wrist = landmarks[0];
+
+    const curls = detectFingerCurls(landmarks);
+    const fingersCurled = curls.index && curls.middle && curls.ring && curls.pinky;
+
+    // Thumb must be extended (tip far from wrist)
+    const thumbExtended = Math.abs(thumbTip.x - wrist.x) > 0.05 || Math.abs(thumbTip.y - wrist.y) > 0.1;
+
+    const thumbVertical = thumbVerticalDelta(landmarks);
+
+    const isThumbsUp = fingersCurled && thumbExtended && thumbVertical > THUMB_GESTURE_THRESHOLD;
+    const isThumbsDown = fingersCurled && thumbExtended && thumbVertical < -THUMB_GESTURE_THRESHOLD;
+
+    return { isThumbsUp, isThumbsDown };
+}
+
+export function detectOpenPalm(landmarks: Landmark[]): boolean {
+    // Check if all fingers are extended
+    const fingerTips = [8, 12, 16, 20]; // Index, Middle, Ring, Pinky
+    const fingerPIPs = [6, 10, 14, 18];
+
+    const fingersExtended = fingerTips.every((tipIdx, i) => {
+        return landmarks[tipIdx].y < landmarks[fingerPIPs[i]].y;
+    });
+
+    // Check thumb extension
+    const thumbTip = landmarks[4];
+    const thumbMCP = landmarks[2];
+    const thumbExtended = Math.abs(thumbTip.x - thumbMCP.x) > 0.05;
+
+    return fingersExtended && thumbExtended;
+}
+
+// `raw` is the same hand before smoothing, if any was applied
+export function buildHandData(hand: TrackedHand, raw: TrackedHand = hand, aspect = 1): HandData {
+    const pinchData = calculatePinch(hand.landmarks);
+    const thumbGesture = detectThumbGesture(hand.landmarks);
+
+    return {
+        id: hand.id,
+        landmarks: hand.landmarks.map(l => ({ x: l.x, y: l.y, z: l.z })),
+        handedness: hand.handedness,
+        physicalHand: hand.physicalHand ?? hand.handedness,
+        aspect,
+        score: hand.score,
+        isPinching: pinchData.isPinching,
+        pinchPosition: pinchData.position,
+        rawPinchPosition: raw === hand ? pinchData.position : calculatePinch(raw.landmarks).position,
+        pinchStrength: pinchData.strength,
+        pinchDistance: pinchData.distance,
+        isThumbsUp: thumbGesture.isThumbsUp,
+        isThumbsDown: thumbGesture.isThumbsDown,
+        isOpenPalm: detectOpenPalm(hand.landmarks),
+    };
+}
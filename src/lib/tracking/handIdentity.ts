@@ -0,0 +1,211 @@
+import type { HandFrame, Handedness, TrackedHand } from './types';
+
+// How a tracked hand is given the left or right role (which gestures it drives)
+export type HandAssignmentPolicy = 'label' | 'side' | 'dominant';
+
+export const HAND_ASSIGNMENT_POLICIES: { id: HandAssignmentPolicy; label: string; description: string }[] = [
+    { id: 'label', label: 'By hand', description: 'MediaPipe decides which hand is which' },
+    { id: 'side', label: 'By side', description: 'The hand that appears on your right side is the right hand' },
+    { id: 'dominant', label: 'Dominant hand', description: 'The first hand in view drives the right-hand controls' },
+];
+
+export interface HandRoleSettings {
+    policy: HandAssignmentPolicy;
+    // Swaps the roles, so the left hand drags and the right hand zooms
+    leftHanded: boolean;
+}
+
+export const DEFAULT_HAND_ROLES: HandRoleSettings = { policy: 'label', leftHanded: false };
+
+const STORAGE_KEY = 'cv-gallery-hands';
+
+export function loadHandRoleSettings(): HandRoleSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!stored || typeof stored !== 'object') return DEFAULT_HAND_ROLES;
+        return {
+            policy: HAND_ASSIGNMENT_POLICIES.some(policy => policy.id === stored.policy) ? stored.policy : DEFAULT_HAND_ROLES.policy,
+            leftHanded: stored.leftHanded === true,
+        };
+    } catch {
+        return DEFAULT_HAND_ROLES;
+    }
+}
+
+export function saveHandRoleSettings(settings: HandRoleSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Private browsing or storage full; the choice just isn't remembered
+    }
+}
+
+// Furthest a palm may be from where it was heading and still count as the same hand (normalized)
+const MATCH_DISTANCE = 0.2;
+// Extra distance charged when a detection's label disagrees with the hand's, scaled by confidence
+const LABEL_MISMATCH_COST = 0.05;
+// A hand missing for longer than this is forgotten and its role freed (ms)
+const LOST_AFTER = 300;
+// Weight of each new frame in the running handedness vote
+const LABEL_SMOOTHING = 0.15;
+// The vote (-1 = left, 1 = right) must pass this far over zero to flip a hand's label
+const LABEL_HYSTERESIS = 0.3;
+
+// Wrist and finger bases: steadier than fingertips
+const PALM_LANDMARKS = [0, 5, 9, 13, 17];
+
+interface Track {
+    id: number;
+    x: number;
+    y: number;
+    // Palm velocity in normalized units per ms, to predict where a moving hand will be
+    vx: number;
+    vy: number;
+    vote: number;
+    hand: Handedness;
+    role: Handedness | null;
+    lastSeen: number;
+}
+
+function palmCenter(hand: TrackedHand) {
+    const points = PALM_LANDMARKS.map(index => hand.landmarks[index]).filter(Boolean);
+    return {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    };
+}
+
+const other = (hand: Handedness): Handedness => (hand === 'Left' ? 'Right' : 'Left');
+
+const labelVote = (hand: TrackedHand) => (hand.handedness === 'Right' ? hand.score : -hand.score);
+
+/**
+ * Follows hands from frame to frame by palm position, so each keeps an id and
+ * a role for as long as it stays in view. Crossing hands or a one-frame label
+ * flip from MediaPipe no longer swaps the controls mid-drag, and two hands
+ * with the same label both get a role.
+ */
+export function createHandIdentityTracker(initialSettings: HandRoleSettings = DEFAULT_HAND_ROLES) {
+    let settings = initialSettings;
+    let tracks: Track[] = [];
+    let nextId = 1;
+
+    // Physical hand to role; left-handed presenters get the mirror image
+    const roleFor = (hand: Handedness) => (settings.leftHanded ? other(hand) : hand);
+
+    // Pairs hands with tracks, closest to the predicted palm position first
+    const match = (hands: TrackedHand[], centers: { x: number; y: number }[], timestamp: number) => {
+        const pairs: { track: Track; detection: number; distance: number }[] = [];
+        tracks.forEach(track => centers.forEach((center, detection) => {
+            const dt = timestamp - track.lastSeen;
+            const distance = Math.hypot(center.x - (track.x + track.vx * dt), center.y - (track.y + track.vy * dt));
+            if (distance >= MATCH_DISTANCE) return;
+            const mismatch = hands[detection].handedness !== track.hand ? hands[detection].score * LABEL_MISMATCH_COST : 0;
+            pairs.push({ track, detection, distance: distance + mismatch });
+        }));
+        pairs.sort((a, b) => a.distance - b.distance);
+
+        const matched = new Map<number, Track>();
+        const used = new Set<Track>();
+        for (const { track, detection } of pairs) {
+            if (matched.has(detection) || used.has(track)) continue;
+            matched.set(detection, track);
+            used.add(track);
+        }
+
+        return hands.map((_, detection) => matched.get(detection) ?? null);
+    };
+
+    const preferredRole = (track: Track, unassigned: Track[]) => {
+        switch (settings.policy) {
+            case 'dominant':
+                return 'Right';
+            case 'side': {
+                // Camera images are not mirrored: the presenter's right is the smaller x
+                const rivals = unassigned.filter(candidate => candidate !== track);
+                const onRight = rivals.length ? rivals.every(rival => track.x <= rival.x) : track.x < 0.5;
+                return roleFor(onRight ? 'Right' : 'Left');
+            }
+            default:
+                return roleFor(track.hand);
+        }
+    };
+
+    const assignRoles = () => {
+        const taken = (role: Handedness, except: Track) => tracks.some(track => track !== except && track.role === role);
+
+        // A confident label change moves a hand to its role when that role is free
+        if (settings.policy === 'label') {
+            tracks.forEach(track => {
+                const role = roleFor(track.hand);
+                if (track.role && track.role !== role && !taken(role, track)) track.role = role;
+            });
+        }
+
+        // Hands that already have a role keep it; the most confident newcomer picks first
+        const unassigned = tracks.filter(track => !track.role).sort((a, b) => Math.abs(b.vote) - Math.abs(a.vote));
+        unassigned.forEach(track => {
+            const preferred = preferredRole(track, unassigned);
+            if (!taken(preferred, track)) track.role = preferred;
+            else if (!taken(other(preferred), track)) track.role = other(preferred);
+        });
+    };
+
+    return {
+        /**
+         * Returns the frame with each hand's handedness replaced by its role and
+         * a stable id added. Hands that get no role (a third hand) are left out.
+         */
+        assign(frame: HandFrame): HandFrame {
+            tracks = tracks.filter(track => frame.timestamp - track.lastSeen <= LOST_AFTER);
+
+            const centers = frame.hands.map(palmCenter);
+            const matches = match(frame.hands, centers, frame.timestamp);
+
+            const frameTracks = frame.hands.map((hand, index) => {
+                const center = centers[index];
+                let track = matches[index];
+
+                if (!track) {
+                    track = { id: nextId++, ...center, vx: 0, vy: 0, vote: labelVote(hand), hand: hand.handedness, role: null, lastSeen: frame.timestamp };
+                    tracks.push(track);
+                    return track;
+                }
+
+                const dt = frame.timestamp - track.lastSeen;
+                if (dt > 0) {
+                    track.vx = (track.vx + (center.x - track.x) / dt) / 2;
+                    track.vy = (track.vy + (center.y - track.y) / dt) / 2;
+                }
+                track.x = center.x;
+                track.y = center.y;
+                track.lastSeen = frame.timestamp;
+                track.vote = track.vote * (1 - LABEL_SMOOTHING) + labelVote(hand) * LABEL_SMOOTHING;
+                if (track.vote > LABEL_HYSTERESIS) track.hand = 'Right';
+                else if (track.vote < -LABEL_HYSTERESIS) track.hand = 'Left';
+                return track;
+            });
+
+            assignRoles();
+
+            const hands: TrackedHand[] = [];
+            frame.hands.forEach((hand, index) => {
+                const { id, role, hand: physicalHand } = frameTracks[index];
+                if (role) hands.push({ ...hand, handedness: role, physicalHand, id });
+            });
+            return { ...frame, hands };
+        },
+
+        // New settings apply to every hand at once
+        configure(next: HandRoleSettings) {
+            settings = next;
+            tracks.forEach(track => {
+                track.role = null;
+            });
+        },
+
+        reset() {
+            tracks = [];
+        },
+    };
+}
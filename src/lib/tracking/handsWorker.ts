@@ -0,0 +1,86 @@
+// Runs MediaPipe Hands off the main thread. Loaded as a classic worker so the
+// solution can pull in its wasm loader with importScripts; WebGL runs on an
+// OffscreenCanvas the solution creates itself.
+import type { Hands, Options } from '@mediapipe/hands';
+import { toHandFrame } from './mediapipeProvider';
+import type { TrackedHand } from './types';
+
+export type HandsWorkerRequest =
+    | { type: 'init'; baseUrl: string; options: Options }
+    // Changed by the performance governor (model complexity)
+    | { type: 'options'; options: Options }
+    // ImageBitmap everywhere; VideoFrame where the browser has it (no copy on the main thread)
+    | { type: 'frame'; image: ImageBitmap | VideoFrame };
+
+export type HandsWorkerResponse =
+    | { type: 'ready' }
+    | { type: 'error'; message: string }
+    // Sent once per frame, also when it could not be processed, so the sender can send the next one
+    | { type: 'results'; hands: TrackedHand[] };
+
+interface WorkerScope {
+    importScripts?: (...urls: string[]) => void;
+    postMessage(message: HandsWorkerResponse): void;
+    onmessage: ((event: MessageEvent<HandsWorkerRequest>) => void) | null;
+    Hands?: typeof Hands;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let hands: Hands | null = null;
+// Hands reports results through a callback; the pending send picks them up
+let latest: TrackedHand[] = [];
+
+async function init(baseUrl: string, options: Options) {
+    if (typeof scope.importScripts !== 'function') {
+        throw new Error('Hand tracking worker must run as a classic worker');
+    }
+    scope.importScripts(`${baseUrl}/hands.js`);
+    if (!scope.Hands) {
+        throw new Error(`Hand tracking script at ${baseUrl}/hands.js did not load`);
+    }
+
+    hands = new scope.Hands({ locateFile: file => `${baseUrl}/${file}` });
+    hands.setOptions(options);
+    hands.onResults(results => {
+        latest = toHandFrame(results).hands;
+    });
+    await hands.initialize();
+}
+
+// Always answers with a results message, or the sender would wait for it forever
+async function processFrame(image: ImageBitmap | VideoFrame) {
+    latest = [];
+    let bitmap: ImageBitmap | null = null;
+    try {
+        // Hands reads width/height, which VideoFrame does not have
+        bitmap = image instanceof ImageBitmap ? image : await createImageBitmap(image);
+        await hands?.send({ image: bitmap as unknown as HTMLCanvasElement });
+    } catch {
+        // Dropped frame; report no hands
+        latest = [];
+    } finally {
+        if (bitmap !== image) image.close();
+        bitmap?.close();
+        scope.postMessage({ type: 'results', hands: latest });
+    }
+}
+
+scope.onmessage = event => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'init':
+            init(message.baseUrl, message.options).then(
+                () => scope.postMessage({ type: 'ready' }),
+                err => scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+            );
+            break;
+        case 'options':
+            hands?.setOptions(message.options);
+            break;
+        case 'frame':
+            processFrame(message.image);
+            break;
+    }
+};
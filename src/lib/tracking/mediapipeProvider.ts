@@ -0,0 +1,194 @@
+import type { Options, Results } from '@mediapipe/hands';
+import type { FrameListener, HandFrame, HandTrackingProvider, TrackingPerformance } from './types';
+
+export function toHandFrame(results: Results): HandFrame {
+    const hands: HandFrame['hands'] = [];
+
+    if (results.multiHandLandmarks && results.multiHandedness) {
+        for (let i = 0; i < results.multiHandLandmarks.length; i++) {
+            const handedness = results.multiHandedness[i];
+            if (!handedness) continue;
+
+            hands.push({
+                landmarks: results.multiHandLandmarks[i].map(l => ({ x: l.x, y: l.y, z: l.z })),
+                // MediaPipe returns mirrored handedness, so we flip it
+                handedness: handedness.label === 'Left' ? 'Right' : 'Left',
+                score: handedness.score,
+            });
+        }
+    }
+
+    const { width, height } = results.image;
+    return { timestamp: performance.now(), hands, aspect: width && height ? width / height : undefined };
+}
+
+// Where the wasm/tflite/binarypb files are served from. `npm install` copies them
+// into public/mediapipe/hands; point this at another origin to host them elsewhere.
+export const MEDIAPIPE_ASSET_BASE = process.env.NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE ?? '/mediapipe/hands';
+
+export const INITIALIZE_TIMEOUT = 20000;
+
+export const HANDS_OPTIONS: Options = {
+    maxNumHands: 2,
+    modelComplexity: 0, // Fastest model
+    minDetectionConfidence: 0.7,
+    minTrackingConfidence: 0.5,
+};
+
+// Frame size for the model: scaled down to `inputWidth` when the camera is wider
+export function inputSize(video: HTMLVideoElement, inputWidth: number | null) {
+    const { videoWidth: width, videoHeight: height } = video;
+    if (!inputWidth || width <= inputWidth) return { width, height };
+    return { width: inputWidth, height: Math.round((height * inputWidth) / width) };
+}
+
+// Frame callbacks land a few milliseconds either side of the ideal time; without
+// some slack a 30fps cap on a 60Hz display would only send every third frame
+const FRAME_SLACK = 5;
+
+export function isFrameDue(now: number, lastSent: number, maxFps: number) {
+    return now - lastSent >= 1000 / maxFps - FRAME_SLACK;
+}
+
+export interface MediaPipeProviderOptions {
+    assetBaseUrl?: string;
+}
+
+export async function checkAssets(baseUrl: string) {
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl}/hands.binarypb`, { method: 'HEAD' });
+    } catch {
+        throw new Error(`Hand tracking model could not be reached at ${baseUrl}`);
+    }
+    if (!response.ok) {
+        throw new Error(`Hand tracking model not found at ${baseUrl} (${response.status}). Run \`npm run mediapipe:assets\`.`);
+    }
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(message)), ms);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            err => {
+                clearTimeout(timer);
+                reject(err);
+            }
+        );
+    });
+}
+
+export function createMediaPipeProvider({ assetBaseUrl = MEDIAPIPE_ASSET_BASE }: MediaPipeProviderOptions = {}): HandTrackingProvider {
+    const baseUrl = assetBaseUrl.replace(/\/$/, '');
+
+    let hands: import('@mediapipe/hands').Hands | null = null;
+    let listener: FrameListener | null = null;
+    let animationFrame = 0;
+    let running = false;
+    // Camera-rate, full-size frames until the governor says otherwise
+    let settings: TrackingPerformance | null = null;
+    let lastSent = 0;
+    let scaled: HTMLCanvasElement | null = null;
+
+    // Smaller frames make the palm detector cheaper; the landmarks stay normalized
+    const scaleFrame = (video: HTMLVideoElement): HTMLVideoElement | HTMLCanvasElement => {
+        const { width, height } = inputSize(video, settings?.inputWidth ?? null);
+        if (width === video.videoWidth) return video;
+
+        scaled ??= document.createElement('canvas');
+        if (scaled.width !== width || scaled.height !== height) {
+            scaled.width = width;
+            scaled.height = height;
+        }
+        scaled.getContext('2d')?.drawImage(video, 0, 0, width, height);
+        return scaled;
+    };
+
+    const stop = () => {
+        running = false;
+        listener = null;
+        if (animationFrame) {
+            cancelAnimationFrame(animationFrame);
+        }
+    };
+
+    return {
+        name: 'mediapipe',
+        requiresVideo: true,
+
+        async initialize() {
+            await checkAssets(baseUrl);
+
+            const { Hands } = await import('@mediapipe/hands');
+
+            hands = new Hands({
+                locateFile: (file: string) => {
+                    return `${baseUrl}/${file}`;
+                },
+            });
+
+            hands.setOptions({ ...HANDS_OPTIONS, modelComplexity: settings?.modelComplexity ?? HANDS_OPTIONS.modelComplexity });
+
+            hands.onResults(results => listener?.({
+                ...toHandFrame(results),
+                inferenceMs: performance.now() - lastSent,
+            }));
+
+            // Loads the wasm runtime and model up front so failures surface here
+            // instead of as a tracker that never produces results
+            await withTimeout(
+                hands.initialize(),
+                INITIALIZE_TIMEOUT,
+                `Hand tracking model at ${baseUrl} did not load within ${INITIALIZE_TIMEOUT / 1000}s`
+            );
+        },
+
+        configure(next) {
+            if (hands && next.modelComplexity !== (settings?.modelComplexity ?? HANDS_OPTIONS.modelComplexity)) {
+                hands.setOptions({ ...HANDS_OPTIONS, modelComplexity: next.modelComplexity });
+            }
+            settings = next;
+        },
+
+        start(video, onFrame) {
+            if (!video || !hands) return;
+
+            listener = onFrame;
+            running = true;
+
+            const processFrame = async () => {
+                if (!running || !hands) return;
+
+                const now = performance.now();
+                const due = !settings || isFrameDue(now, lastSent, settings.maxFps);
+
+                if (video.readyState >= 2 && due) {
+                    lastSent = now;
+                    try {
+                        await hands.send({ image: scaleFrame(video) });
+                    } catch (e) {
+                        // Ignore send errors
+                    }
+                }
+
+                if (running) {
+                    animationFrame = requestAnimationFrame(processFrame);
+                }
+            };
+
+            processFrame();
+        },
+
+        stop,
+
+        dispose() {
+            stop();
+            hands?.close();
+            hands = null;
+        },
+    };
+}
@@ -0,0 +1,215 @@
+import {
+    HANDS_OPTIONS,
+    INITIALIZE_TIMEOUT,
+    MEDIAPIPE_ASSET_BASE,
+    checkAssets,
+    createMediaPipeProvider,
+    inputSize,
+    isFrameDue,
+    withTimeout,
+} from './mediapipeProvider';
+import type { HandsWorkerRequest, HandsWorkerResponse } from './handsWorker';
+import type { FrameListener, HandTrackingProvider, ProviderErrorListener, TrackingPerformance } from './types';
+
+export interface MediaPipeWorkerProviderOptions {
+    assetBaseUrl?: string;
+}
+
+// Video frame callbacks only fire for new camera frames; older browsers poll every animation frame
+type VideoWithFrameCallback = HTMLVideoElement & {
+    requestVideoFrameCallback?: (callback: () => void) => number;
+    cancelVideoFrameCallback?: (handle: number) => void;
+};
+
+export function supportsWorkerTracking() {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+}
+
+/**
+ * Grabs a transferable copy of the current video frame. VideoFrame wraps the
+ * decoded frame without copying; ImageBitmap is the fallback, and is also used
+ * when the frame has to be scaled down first.
+ */
+async function grabFrame(video: HTMLVideoElement, inputWidth: number | null): Promise<ImageBitmap | VideoFrame> {
+    const { width, height } = inputSize(video, inputWidth);
+    if (width !== video.videoWidth) {
+        return createImageBitmap(video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'low' });
+    }
+    if (typeof VideoFrame !== 'undefined') {
+        return new VideoFrame(video);
+    }
+    return createImageBitmap(video);
+}
+
+/**
+ * MediaPipe Hands in a Web Worker. Only one frame is in flight at a time: new
+ * camera frames are skipped until the worker answers, so a slow model lowers
+ * the tracking rate instead of building a queue. If the worker cannot start,
+ * tracking falls back to the main thread.
+ */
+export function createMediaPipeWorkerProvider({ assetBaseUrl = MEDIAPIPE_ASSET_BASE }: MediaPipeWorkerProviderOptions = {}): HandTrackingProvider {
+    const baseUrl = assetBaseUrl.replace(/\/$/, '');
+
+    let worker: Worker | null = null;
+    let fallback: HandTrackingProvider | null = null;
+    let listener: FrameListener | null = null;
+    let errorListener: ProviderErrorListener | null = null;
+    let running = false;
+    let inFlight = false;
+    // Camera-rate, full-size frames until the governor says otherwise
+    let settings: TrackingPerformance | null = null;
+    let lastSent = 0;
+    // Of the frame in flight; scaling keeps it
+    let aspect: number | undefined;
+    let video: VideoWithFrameCallback | null = null;
+    let frameHandle = 0;
+
+    const handsOptions = () => ({ ...HANDS_OPTIONS, modelComplexity: settings?.modelComplexity ?? HANDS_OPTIONS.modelComplexity });
+
+    const post = (message: HandsWorkerRequest, transfer: Transferable[] = []) => worker?.postMessage(message, transfer);
+
+    // A worker that fails or times out is terminated, so a half-loaded model never runs next to the fallback
+    const startWorker = async () => {
+        const created = new Worker(new URL('./handsWorker.ts', import.meta.url));
+        const ready = new Promise<Worker>((resolve, reject) => {
+            created.onmessage = (event: MessageEvent<HandsWorkerResponse>) => {
+                if (event.data.type === 'ready') resolve(created);
+                else if (event.data.type === 'error') reject(new Error(event.data.message));
+            };
+            created.onerror = event => reject(new Error(event.message || 'Hand tracking worker failed to start'));
+
+            created.postMessage({ type: 'init', baseUrl, options: handsOptions() } satisfies HandsWorkerRequest);
+        });
+
+        try {
+            return await withTimeout(
+                ready,
+                INITIALIZE_TIMEOUT,
+                `Hand tracking model at ${baseUrl} did not load within ${INITIALIZE_TIMEOUT / 1000}s`
+            );
+        } catch (err) {
+            created.terminate();
+            throw err;
+        }
+    };
+
+    const cancelFrame = () => {
+        if (!frameHandle) return;
+        if (video?.cancelVideoFrameCallback) video.cancelVideoFrameCallback(frameHandle);
+        else cancelAnimationFrame(frameHandle);
+        frameHandle = 0;
+    };
+
+    const scheduleFrame = () => {
+        if (!running || !video) return;
+        frameHandle = video.requestVideoFrameCallback
+            ? video.requestVideoFrameCallback(sendFrame)
+            : requestAnimationFrame(sendFrame);
+    };
+
+    const sendFrame = async () => {
+        frameHandle = 0;
+        if (!running || !video) return;
+
+        // Backpressure: skip camera frames while the worker is busy or the tier's rate is reached
+        const now = performance.now();
+        if (!inFlight && video.readyState >= 2 && (!settings || isFrameDue(now, lastSent, settings.maxFps))) {
+            inFlight = true;
+            lastSent = now;
+            aspect = video.videoHeight ? video.videoWidth / video.videoHeight : undefined;
+            try {
+                const image = await grabFrame(video, settings?.inputWidth ?? null);
+                post({ type: 'frame', image }, [image]);
+            } catch {
+                inFlight = false;
+            }
+        }
+
+        scheduleFrame();
+    };
+
+    const onResults = (event: MessageEvent<HandsWorkerResponse>) => {
+        if (event.data.type !== 'results') return;
+        inFlight = false;
+        const now = performance.now();
+        if (running) listener?.({ timestamp: now, hands: event.data.hands, inferenceMs: now - lastSent, aspect });
+    };
+
+    const stop = () => {
+        if (fallback) {
+            fallback.stop();
+            return;
+        }
+        running = false;
+        listener = null;
+        errorListener = null;
+        cancelFrame();
+    };
+
+    // The worker died after it was ready (out of memory, a WebGL context loss)
+    const onCrash = (event: ErrorEvent) => {
+        const report = errorListener;
+        stop();
+        worker?.terminate();
+        worker = null;
+        report?.(new Error(event.message || 'Hand tracking worker stopped unexpectedly'));
+    };
+
+    return {
+        get name() {
+            return fallback ? fallback.name : 'mediapipe-worker';
+        },
+        requiresVideo: true,
+
+        async initialize() {
+            await checkAssets(baseUrl);
+
+            try {
+                worker = await startWorker();
+                worker.onmessage = onResults;
+                worker.onerror = onCrash;
+            } catch (err) {
+                console.warn('Hand tracking worker unavailable, tracking on the main thread:', err);
+                fallback = createMediaPipeProvider({ assetBaseUrl });
+                if (settings) fallback.configure?.(settings);
+                await fallback.initialize();
+            }
+        },
+
+        configure(next) {
+            if (fallback) {
+                fallback.configure?.(next);
+                return;
+            }
+            const complexityChanged = next.modelComplexity !== (settings?.modelComplexity ?? HANDS_OPTIONS.modelComplexity);
+            settings = next;
+            if (complexityChanged) post({ type: 'options', options: handsOptions() });
+        },
+
+        start(videoElement, onFrame, onError) {
+            if (fallback) {
+                fallback.start(videoElement, onFrame, onError);
+                return;
+            }
+            if (!videoElement || !worker) return;
+
+            stop();
+            video = videoElement;
+            listener = onFrame;
+            errorListener = onError ?? null;
+            running = true;
+            inFlight = false;
+            scheduleFrame();
+        },
+
+        stop,
+
+        dispose() {
+            stop();
+            fallback?.dispose();
+            fallback = null;
+            worker?.terminate();
+            worker = null;
+        },
+    };
+}
@@ -0,0 +1,124 @@
+import type { HandFrame, Handedness, Landmark } from './types';
+
+export interface OneEuroOptions {
+    // Cutoff frequency (Hz) at rest: lower = less jitter, more lag
+    minCutoff: number;
+    // How quickly the cutoff rises with speed: higher = less lag on fast moves
+    beta: number;
+    // Cutoff used when estimating speed
+    dCutoff: number;
+}
+
+// Tuned for normalized (0-1) landmark coordinates
+export const DEFAULT_SMOOTHING: OneEuroOptions = {
+    minCutoff: 1.5,
+    beta: 8,
+    dCutoff: 1,
+};
+
+// A finite number of at least `min`, or null
+const numberParam = (value: string | null, min: number) => {
+    if (value === null || value.trim() === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) && number >= min ? number : null;
+};
+
+// Reads ?minCutoff=1.5&beta=8 from the URL; missing or invalid values keep the default
+export function smoothingFromSearch(search: string): OneEuroOptions {
+    const params = new URLSearchParams(search);
+    return {
+        ...DEFAULT_SMOOTHING,
+        // A zero cutoff would freeze the hands in place
+        minCutoff: numberParam(params.get('minCutoff'), 0.01) ?? DEFAULT_SMOOTHING.minCutoff,
+        beta: numberParam(params.get('beta'), 0) ?? DEFAULT_SMOOTHING.beta,
+    };
+}
+
+function smoothingFactor(cutoff: number, dt: number) {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012) for a single scalar signal.
+ * Timestamps are in milliseconds.
+ */
+export function createOneEuroFilter(options: OneEuroOptions) {
+    let previous: { value: number; derivative: number; time: number } | null = null;
+
+    return (value: number, time: number) => {
+        if (!previous || time <= previous.time) {
+            previous = { value, derivative: 0, time };
+            return value;
+        }
+
+        const dt = (time - previous.time) / 1000;
+        const derivative = (value - previous.value) / dt;
+        const aD = smoothingFactor(options.dCutoff, dt);
+        const smoothedDerivative = aD * derivative + (1 - aD) * previous.derivative;
+
+        const cutoff = options.minCutoff + options.beta * Math.abs(smoothedDerivative);
+        const a = smoothingFactor(cutoff, dt);
+        const smoothed = a * value + (1 - a) * previous.value;
+
+        previous = { value: smoothed, derivative: smoothedDerivative, time };
+        return smoothed;
+    };
+}
+
+type Filter = ReturnType<typeof createOneEuroFilter>;
+
+/**
+ * Smooths every landmark coordinate of each hand independently. A hand's
+ * filters are dropped when it leaves the frame so it doesn't glide back in.
+ */
+export function createLandmarkSmoother(initialOptions: OneEuroOptions = DEFAULT_SMOOTHING) {
+    let options = initialOptions;
+    let filters: Partial<Record<Handedness, Filter[][]>> = {};
+    const ids: Partial<Record<Handedness, number>> = {};
+
+    const filtersFor = (hand: Handedness, count: number) => {
+        let handFilters = filters[hand];
+        if (!handFilters || handFilters.length !== count) {
+            handFilters = Array.from({ length: count }, () => [
+                createOneEuroFilter(options),
+                createOneEuroFilter(options),
+                createOneEuroFilter(options),
+            ]);
+            filters[hand] = handFilters;
+        }
+        return handFilters;
+    };
+
+    return {
+        smooth(frame: HandFrame): HandFrame {
+            const seen = new Set(frame.hands.map(hand => hand.handedness));
+            for (const hand of Object.keys(filters) as Handedness[]) {
+                if (!seen.has(hand)) delete filters[hand];
+            }
+            // A role handed over to another hand starts fresh too
+            for (const hand of frame.hands) {
+                if (hand.id !== ids[hand.handedness]) delete filters[hand.handedness];
+                ids[hand.handedness] = hand.id;
+            }
+
+            return {
+                ...frame,
+                hands: frame.hands.map(hand => {
+                    const handFilters = filtersFor(hand.handedness, hand.landmarks.length);
+                    const landmarks: Landmark[] = hand.landmarks.map((l, i) => ({
+                        x: handFilters[i][0](l.x, frame.timestamp),
+                        y: handFilters[i][1](l.y, frame.timestamp),
+                        z: handFilters[i][2](l.z, frame.timestamp),
+                    }));
+                    return { ...hand, landmarks };
+                }),
+            };
+        },
+
+        configure(next: OneEuroOptions) {
+            options = next;
+            filters = {};
+        },
+    };
+}
@@ -0,0 +1,138 @@
+import type { TrackingPerformance } from './types';
+
+export type PerformanceTierId = 'high' | 'balanced' | 'low' | 'minimal';
+
+export interface PerformanceTier extends TrackingPerformance {
+    id: PerformanceTierId;
+    label: string;
+}
+
+// Ordered from best tracking to cheapest
+export const PERFORMANCE_TIERS: PerformanceTier[] = [
+    { id: 'high', label: 'High', maxFps: 30, inputWidth: null, modelComplexity: 1 },
+    { id: 'balanced', label: 'Balanced', maxFps: 30, inputWidth: 640, modelComplexity: 0 },
+    { id: 'low', label: 'Low', maxFps: 20, inputWidth: 480, modelComplexity: 0 },
+    { id: 'minimal', label: 'Minimal', maxFps: 12, inputWidth: 320, modelComplexity: 0 },
+];
+
+export const DEFAULT_PERFORMANCE_TIER: PerformanceTierId = 'balanced';
+
+export function tierById(id: string | null | undefined) {
+    return PERFORMANCE_TIERS.find(tier => tier.id === id) ?? null;
+}
+
+// ?performance=low pins a tier; anything else leaves the governor in charge
+export function performanceModeFromSearch(search: string): PerformanceTierId | 'auto' {
+    return tierById(new URLSearchParams(search).get('performance'))?.id ?? 'auto';
+}
+
+export interface GovernorConfig {
+    // Inference may use this share of a tier's frame interval before stepping down
+    latencyBudget: number;
+    // Step up only when inference fits in this share of the better tier's interval
+    headroom: number;
+    // How long a problem must last before stepping down (ms)
+    downgradeAfter: number;
+    // How long things must stay comfortable before stepping up (ms)
+    upgradeAfter: number;
+    // No step up for this long after a step down, so a tier that just failed isn't retried at once (ms)
+    upgradeCooldown: number;
+}
+
+export const DEFAULT_GOVERNOR_CONFIG: GovernorConfig = {
+    latencyBudget: 0.8,
+    headroom: 0.5,
+    downgradeAfter: 1500,
+    upgradeAfter: 6000,
+    upgradeCooldown: 15000,
+};
+
+// Exponential moving average weight for new samples
+const SMOOTHING = 0.1;
+
+/**
+ * Watches inference latency and moves between PERFORMANCE_TIERS to keep it
+ * inside the tier's frame interval. Render FPS is left out on purpose: 30 Hz
+ * displays and power-saving modes cap it regardless of load, and with the
+ * model in a worker a cheaper tier would not raise it anyway. Stepping down
+ * is quick and stepping up is slow, so a venue laptop settles instead of
+ * oscillating.
+ */
+export function createPerformanceGovernor(
+    initialTier: PerformanceTierId = DEFAULT_PERFORMANCE_TIER,
+    config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG
+) {
+    let index = Math.max(0, PERFORMANCE_TIERS.findIndex(tier => tier.id === initialTier));
+    let latency = 0;
+    let strugglingSince: number | null = null;
+    let comfortableSince: number | null = null;
+    let lastDowngrade = -Infinity;
+
+    const average = (previous: number, sample: number) =>
+        previous ? previous * (1 - SMOOTHING) + sample * SMOOTHING : sample;
+
+    const budgetOf = (tier: PerformanceTier) => 1000 / tier.maxFps;
+
+    const reset = () => {
+        latency = 0;
+        strugglingSince = null;
+        comfortableSince = null;
+    };
+
+    return {
+        get tier() {
+            return PERFORMANCE_TIERS[index];
+        },
+
+        get latency() {
+            return latency;
+        },
+
+        recordInference(ms: number) {
+            latency = average(latency, ms);
+        },
+
+        /**
+         * Re-evaluates the tier. Returns the new tier when it changed, else null.
+         */
+        evaluate(now: number): PerformanceTier | null {
+            if (!latency) return null;
+
+            const tier = PERFORMANCE_TIERS[index];
+            const struggling = latency > budgetOf(tier) * config.latencyBudget;
+
+            if (struggling) {
+                comfortableSince = null;
+                strugglingSince ??= now;
+                if (now - strugglingSince >= config.downgradeAfter && index < PERFORMANCE_TIERS.length - 1) {
+                    index++;
+                    lastDowngrade = now;
+                    reset();
+                    return PERFORMANCE_TIERS[index];
+                }
+                return null;
+            }
+
+            strugglingSince = null;
+            const better = PERFORMANCE_TIERS[index - 1];
+            const comfortable = better
+                && latency < budgetOf(better) * config.headroom
+                && now - lastDowngrade >= config.upgradeCooldown;
+
+            if (!comfortable) {
+                comfortableSince = null;
+                return null;
+            }
+
+            comfortableSince ??= now;
+            if (now - comfortableSince >= config.upgradeAfter) {
+                index--;
+                reset();
+                return PERFORMANCE_TIERS[index];
+            }
+            return null;
+        },
+    };
+}
+
+export type PerformanceGovernor = ReturnType<typeof createPerformanceGovernor>;
@@ -0,0 +1,57 @@
+import type { GestureEventMap, GestureHandler } from './gestureEngine';
+import type { Handedness } from './types';
+
+export type PinchEventType = 'pinchStart' | 'pinchMove' | 'pinchEnd';
+
+/**
+ * Sends each pinch to a single target, such as one image on the stage. The
+ * target is picked when the pinch starts; its moves and its end follow it
+ * there, so no two targets ever handle the same pinch.
+ */
+export function createPinchRouter() {
+    const targets: Record<Handedness, string | null> = { Left: null, Right: null };
+    const handlers = new Map<string, Set<GestureHandler<PinchEventType>>>();
+
+    const deliver = <K extends PinchEventType>(type: K, event: GestureEventMap[K]) => {
+        const target = targets[event.hand];
+        if (target === null) return;
+        handlers.get(`${target}:${type}`)?.forEach(handler => (handler as GestureHandler<K>)(event));
+    };
+
+    return {
+        // Null drops the pinch, along with its moves and end
+        start(event: GestureEventMap['pinchStart'], target: string | null) {
+            targets[event.hand] = target;
+            deliver('pinchStart', event);
+        },
+
+        move(event: GestureEventMap['pinchMove']) {
+            deliver('pinchMove', event);
+        },
+
+        end(event: GestureEventMap['pinchEnd']) {
+            deliver('pinchEnd', event);
+            targets[event.hand] = null;
+        },
+
+        // Where the hand's current pinch went, null when it is not pinching anything
+        targetOf(hand: Handedness): string | null {
+            return targets[hand];
+        },
+
+        on<K extends PinchEventType>(target: string, type: K, handler: GestureHandler<K>) {
+            const key = `${target}:${type}`;
+            let set = handlers.get(key);
+            if (!set) {
+                set = new Set();
+                handlers.set(key, set);
+            }
+            set.add(handler as GestureHandler<PinchEventType>);
+            return () => {
+                set.delete(handler as GestureHandler<PinchEventType>);
+            };
+        },
+    };
+}
+
+export type PinchRouter = ReturnType<typeof createPinchRouter>;
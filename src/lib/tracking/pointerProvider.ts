@@ -0,0 +1,295 @@
+import { createPoseLandmarks, type SyntheticPose } from './syntheticPoses';
+import type { FrameListener, Handedness, HandTrackingProvider, TrackedHand } from './types';
+
+export interface PointerProviderOptions {
+    fps?: number;
+}
+
+interface ScreenPoint {
+    x: number;
+    y: number;
+}
+
+interface PointerHand {
+    hand: Handedness;
+    position: ScreenPoint;
+}
+
+// A wheel gesture held as a left-hand pinch that moves up or down
+interface WheelPinch {
+    anchor: ScreenPoint;
+    offsetY: number;
+    startedAt: number;
+    lastAt: number;
+}
+
+interface ReleasedHand extends PointerHand {
+    until: number;
+}
+
+interface KeyPose {
+    hand: Handedness;
+    pose: 'thumbsUp' | 'thumbsDown';
+    until: number;
+}
+
+// Wheel pixels per pixel of synthetic hand travel; ImageViewer zooms 0.008 per pixel
+const WHEEL_TRAVEL = 0.25;
+// The pinch holds still this long before moving, so it starts where the pointer is
+const WHEEL_SETTLE_MS = 60;
+// The wheel pinch opens this long after the last wheel event
+const WHEEL_RELEASE_MS = 250;
+// Opened hands stay visible a little longer, so pinches end by opening rather
+// than as lost tracking, which would cancel drops
+const RELEASE_LINGER_MS = 200;
+// Longer than the gesture engine's thumbs and palm hold times
+const KEY_THUMBS_MS = 250;
+const KEY_PALMS_MS = 600;
+
+// Clicks on controls stay clicks
+const IGNORED_TARGETS = 'button, a, input, select, textarea, [data-pointer-ignore]';
+
+function isEditable(target: EventTarget | null) {
+    const element = target as HTMLElement | null;
+    return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+}
+
+function isIgnored(target: EventTarget | null) {
+    return target instanceof Element && !!target.closest(IGNORED_TARGETS);
+}
+
+function trackedHand(hand: Handedness, pose: SyntheticPose, position: ScreenPoint): TrackedHand {
+    return {
+        // Screen pixels to mirrored camera space
+        landmarks: createPoseLandmarks(pose, {
+            x: 1 - position.x / window.innerWidth,
+            y: position.y / window.innerHeight,
+        }, hand),
+        handedness: hand,
+        score: 1,
+    };
+}
+
+/**
+ * Synthesizes hands from the mouse, touch and keyboard for use without a camera:
+ *
+ *   mouse move                 right hand hovers
+ *   drag / one finger          right-hand pinch (pick up, drag, dismiss)
+ *   Shift+drag / right-drag    left-hand pinch (zoom up/down, pan sideways, scrub)
+ *   two fingers                both hands pinching (two-handed zoom and rotate)
+ *   wheel                      left-hand pinch moving up/down (zoom at the pointer)
+ *   arrow keys                 right thumbs up (→ ↑) / down (← ↓), with Shift the left hand
+ *   Escape                     both palms open
+ */
+export function createPointerProvider({ fps = 60 }: PointerProviderOptions = {}): HandTrackingProvider {
+    const pointers = new Map<number, PointerHand>();
+    let released: ReleasedHand[] = [];
+    let hover: ScreenPoint | null = null;
+    let wheel: WheelPinch | null = null;
+    let keyPose: KeyPose | null = null;
+    let palmsUntil = 0;
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let previousTouchAction = '';
+
+    const isHandTaken = (hand: Handedness) => [...pointers.values()].some(pointer => pointer.hand === hand);
+
+    const onPointerDown = (event: PointerEvent) => {
+        if (isIgnored(event.target)) return;
+
+        let hand: Handedness | null;
+        if (event.pointerType === 'touch') {
+            hand = !isHandTaken('Right') ? 'Right' : !isHandTaken('Left') ? 'Left' : null;
+        } else {
+            hand = event.button === 2 || event.shiftKey ? 'Left' : 'Right';
+            if (isHandTaken(hand)) hand = null;
+        }
+        if (!hand) return;
+
+        pointers.set(event.pointerId, { hand, position: { x: event.clientX, y: event.clientY } });
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+        const position = { x: event.clientX, y: event.clientY };
+        if (event.pointerType === 'mouse') hover = position;
+
+        const pointer = pointers.get(event.pointerId);
+        if (pointer) pointer.position = position;
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+        const pointer = pointers.get(event.pointerId);
+        if (!pointer) return;
+
+        pointers.delete(event.pointerId);
+        released.push({ ...pointer, until: performance.now() + RELEASE_LINGER_MS });
+    };
+
+    const onPointerLeave = (event: PointerEvent) => {
+        if (event.pointerType === 'mouse') hover = null;
+    };
+
+    const onContextMenu = (event: MouseEvent) => {
+        // Right-drag is a left-hand pinch
+        if (!isIgnored(event.target)) event.preventDefault();
+    };
+
+    // Dragging an image or over text would otherwise start a native drag or selection
+    const onNativeDrag = (event: Event) => {
+        if (!isIgnored(event.target)) event.preventDefault();
+    };
+
+    const onWheel = (event: WheelEvent) => {
+        // Also keeps trackpad pinches (ctrl+wheel) from zooming the page
+        event.preventDefault();
+
+        const now = performance.now();
+        const pixels = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+
+        if (!wheel || now - wheel.lastAt > WHEEL_RELEASE_MS) {
+            wheel = { anchor: { x: event.clientX, y: event.clientY }, offsetY: 0, startedAt: now, lastAt: now };
+        }
+        wheel.offsetY += pixels * WHEEL_TRAVEL;
+        wheel.lastAt = now;
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+        if (isEditable(event.target) || event.metaKey || event.ctrlKey || event.altKey) return;
+
+        const now = performance.now();
+        const hand: Handedness = event.shiftKey ? 'Left' : 'Right';
+
+        switch (event.key) {
+            case 'ArrowUp':
+            case 'ArrowRight':
+                keyPose = { hand, pose: 'thumbsUp', until: now + KEY_THUMBS_MS };
+                break;
+            case 'ArrowDown':
+            case 'ArrowLeft':
+                keyPose = { hand, pose: 'thumbsDown', until: now + KEY_THUMBS_MS };
+                break;
+            case 'Escape':
+                palmsUntil = now + KEY_PALMS_MS;
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    };
+
+    const handsAt = (now: number): TrackedHand[] => {
+        const width = window.innerWidth;
+        const height = window.innerHeight;
+
+        if (now < palmsUntil) {
+            return [
+                trackedHand('Left', 'openPalm', { x: width * 0.25, y: height * 0.5 }),
+                trackedHand('Right', 'openPalm', { x: width * 0.55, y: height * 0.5 }),
+            ];
+        }
+
+        const hands: Partial<Record<Handedness, { pose: SyntheticPose; position: ScreenPoint }>> = {};
+
+        pointers.forEach(({ hand, position }) => {
+            hands[hand] = { pose: 'pinch', position };
+        });
+
+        released = released.filter(hand => now < hand.until);
+        released.forEach(({ hand, position }) => {
+            hands[hand] ??= { pose: 'idle', position };
+        });
+
+        if (!hands.Right && hover) {
+            hands.Right = { pose: 'idle', position: hover };
+        }
+
+        if (!hands.Left && wheel) {
+            const { anchor, offsetY, startedAt, lastAt } = wheel;
+            const position = now - startedAt < WHEEL_SETTLE_MS ? anchor : { x: anchor.x, y: anchor.y + offsetY };
+
+            if (now - lastAt <= WHEEL_RELEASE_MS) {
+                hands.Left = { pose: 'pinch', position };
+            } else if (now - lastAt <= WHEEL_RELEASE_MS + RELEASE_LINGER_MS) {
+                hands.Left = { pose: 'idle', position };
+            } else {
+                wheel = null;
+            }
+        }
+
+        if (keyPose && now < keyPose.until) {
+            const current = hands[keyPose.hand];
+            // A pinching hand keeps pinching
+            if (current?.pose !== 'pinch') {
+                const fallback = keyPose.hand === 'Left' ? { x: width * 0.2, y: height * 0.5 } : { x: width * 0.4, y: height * 0.5 };
+                hands[keyPose.hand] = { pose: keyPose.pose, position: current?.position ?? fallback };
+            }
+        }
+
+        return (Object.entries(hands) as [Handedness, { pose: SyntheticPose; position: ScreenPoint }][])
+            .map(([hand, { pose, position }]) => trackedHand(hand, pose, position));
+    };
+
+    const stop = () => {
+        if (!timer) return;
+
+        clearInterval(timer);
+        timer = null;
+
+        window.removeEventListener('pointerdown', onPointerDown);
+        window.removeEventListener('pointermove', onPointerMove);
+        window.removeEventListener('pointerup', onPointerUp);
+        window.removeEventListener('pointercancel', onPointerUp);
+        document.documentElement.removeEventListener('pointerleave', onPointerLeave);
+        window.removeEventListener('contextmenu', onContextMenu);
+        window.removeEventListener('dragstart', onNativeDrag);
+        window.removeEventListener('selectstart', onNativeDrag);
+        window.removeEventListener('wheel', onWheel);
+        window.removeEventListener('keydown', onKeyDown);
+        document.documentElement.style.touchAction = previousTouchAction;
+
+        pointers.clear();
+        released = [];
+        hover = null;
+        wheel = null;
+        keyPose = null;
+    };
+
+    return {
+        name: 'pointer',
+        requiresVideo: false,
+        assignsRoles: true,
+
+        async initialize() {
+            // Nothing to load
+        },
+
+        start(_video, onFrame: FrameListener) {
+            stop();
+
+            window.addEventListener('pointerdown', onPointerDown);
+            window.addEventListener('pointermove', onPointerMove);
+            window.addEventListener('pointerup', onPointerUp);
+            window.addEventListener('pointercancel', onPointerUp);
+            document.documentElement.addEventListener('pointerleave', onPointerLeave);
+            window.addEventListener('contextmenu', onContextMenu);
+            window.addEventListener('dragstart', onNativeDrag);
+            window.addEventListener('selectstart', onNativeDrag);
+            window.addEventListener('wheel', onWheel, { passive: false });
+            window.addEventListener('keydown', onKeyDown);
+            // Touch drags are pinches, not page scrolls or zooms
+            previousTouchAction = document.documentElement.style.touchAction;
+            document.documentElement.style.touchAction = 'none';
+
+            timer = setInterval(() => {
+                const now = performance.now();
+                onFrame({ timestamp: now, hands: handsAt(now) });
+            }, 1000 / fps);
+        },
+
+        stop,
+
+        dispose() {
+            stop();
+        },
+    };
+}
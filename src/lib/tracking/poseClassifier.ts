@@ -0,0 +1,193 @@
+import { downloadBlob } from '@/lib/download';
+import type { Handedness, Landmark } from './types';
+
+// A pose taught in the gesture trainer
+export interface CustomPose {
+    // Used as the binding key, so it never changes once the pose exists
+    id: string;
+    name: string;
+    // Landmark vectors as returned by normalizeLandmarks
+    samples: number[][];
+}
+
+export interface PoseMatch {
+    poseId: string;
+    // Mean landmark distance to the closest sample of the pose, in palm lengths
+    distance: number;
+}
+
+export interface PoseClassifierConfig {
+    // Neighbours that vote on the pose
+    k: number;
+    // A hand further than this from every sample of the winning pose matches nothing
+    maxDistance: number;
+}
+
+export const DEFAULT_CLASSIFIER_CONFIG: PoseClassifierConfig = {
+    k: 5,
+    maxDistance: 0.15,
+};
+
+export const POSES_FORMAT_VERSION = 1;
+
+const STORAGE_KEY = 'cv-gallery-poses';
+
+const LANDMARK_COUNT = 21;
+// MediaPipe's depth estimate is noisier than x and y, so it counts for less
+const Z_WEIGHT = 0.5;
+
+/**
+ * Makes landmarks comparable between hands and frames: the wrist moves to the
+ * origin, the wrist-to-middle-knuckle line points straight up and is one unit
+ * long, and left hands are mirrored onto right hands. Returns x, y, z per
+ * landmark in a flat array.
+ *
+ * Landmark x and y are fractions of the image width and height, so x (and z,
+ * which MediaPipe scales like x) is first multiplied by `aspect` (width /
+ * height). Only then is the rotation rigid. `hand` must be the physical hand,
+ * not the role it was given.
+ */
+export function normalizeLandmarks(landmarks: Landmark[], hand: Handedness, aspect = 1): number[] {
+    const wrist = landmarks[0];
+    const knuckle = landmarks[9];
+    const dx = (knuckle.x - wrist.x) * aspect;
+    const dy = knuckle.y - wrist.y;
+    const scale = Math.hypot(dx, dy) || 1;
+
+    // Rotates the knuckle direction onto (0, -1), which is up in camera coordinates
+    const angle = -Math.PI / 2 - Math.atan2(dy, dx);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const mirror = hand === 'Left' ? -1 : 1;
+
+    return landmarks.flatMap(landmark => {
+        const x = (landmark.x - wrist.x) * aspect / scale;
+        const y = (landmark.y - wrist.y) / scale;
+        return [(x * cos - y * sin) * mirror, x * sin + y * cos, (landmark.z - wrist.z) * aspect / scale];
+    });
+}
+
+export function poseDistance(a: number[], b: number[]): number {
+    let total = 0;
+    for (let i = 0; i < LANDMARK_COUNT * 3; i += 3) {
+        total += Math.hypot(a[i] - b[i], a[i + 1] - b[i + 1], (a[i + 2] - b[i + 2]) * Z_WEIGHT);
+    }
+    return total / LANDMARK_COUNT;
+}
+
+/**
+ * k-nearest-neighbour classifier over the samples of every custom pose.
+ * The k closest samples vote; ties go to the pose with the closer samples.
+ */
+export function createPoseClassifier(poses: CustomPose[], config: PoseClassifierConfig = DEFAULT_CLASSIFIER_CONFIG) {
+    const samples = poses.flatMap(pose => pose.samples.map(features => ({ poseId: pose.id, features })));
+
+    return {
+        // `hand` is the physical hand; `aspect` the camera's width / height
+        classify(landmarks: Landmark[], hand: Handedness, aspect = 1): PoseMatch | null {
+            if (samples.length === 0 || landmarks.length < LANDMARK_COUNT) return null;
+            const features = normalizeLandmarks(landmarks, hand, aspect);
+
+            const nearest = samples
+                .map(sample => ({ poseId: sample.poseId, distance: poseDistance(features, sample.features) }))
+                .sort((a, b) => a.distance - b.distance)
+                .slice(0, config.k);
+
+            const votes = new Map<string, { count: number; total: number; closest: number }>();
+            for (const { poseId, distance } of nearest) {
+                const vote = votes.get(poseId) ?? { count: 0, total: 0, closest: distance };
+                vote.count++;
+                vote.total += distance;
+                votes.set(poseId, vote);
+            }
+
+            let best: PoseMatch | null = null;
+            let bestVote: { count: number; total: number } | null = null;
+            for (const [poseId, vote] of votes) {
+                if (!bestVote || vote.count > bestVote.count || (vote.count === bestVote.count && vote.total < bestVote.total)) {
+                    best = { poseId, distance: vote.closest };
+                    bestVote = vote;
+                }
+            }
+
+            return best && best.distance <= config.maxDistance ? best : null;
+        },
+    };
+}
+
+export type PoseClassifier = ReturnType<typeof createPoseClassifier>;
+
+// Readable id from the name, made unique among the existing poses
+export function createPoseId(name: string, poses: CustomPose[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pose';
+    let id = base;
+    for (let n = 2; poses.some(pose => pose.id === id); n++) id = `${base}-${n}`;
+    return id;
+}
+
+/**
+ * Reads poses from untrusted JSON (localStorage or an imported file). Poses
+ * without a name and samples of the wrong length are dropped.
+ */
+export function parseCustomPoses(value: unknown): CustomPose[] {
+    if (!Array.isArray(value)) return [];
+    const poses: CustomPose[] = [];
+    for (const entry of value) {
+        if (!entry || typeof entry !== 'object') continue;
+        const { id, name, samples } = entry as Partial<Record<keyof CustomPose, unknown>>;
+        if (typeof id !== 'string' || !id || typeof name !== 'string' || poses.some(pose => pose.id === id)) continue;
+        const valid = Array.isArray(samples)
+            ? samples.filter((sample): sample is number[] =>
+                Array.isArray(sample) && sample.length === LANDMARK_COUNT * 3 && sample.every(Number.isFinite))
+            : [];
+        poses.push({ id, name, samples: valid });
+    }
+    return poses;
+}
+
+export function loadCustomPoses(): CustomPose[] {
+    try {
+        return parseCustomPoses(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    } catch {
+        return [];
+    }
+}
+
+// Four decimals of a palm length is far below tracking noise and keeps files small
+const compact = (poses: CustomPose[]) => poses.map(pose => ({
+    ...pose,
+    samples: pose.samples.map(sample => sample.map(value => Math.round(value * 1e4) / 1e4)),
+}));
+
+export function saveCustomPoses(poses: CustomPose[]) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(compact(poses)));
+    } catch {
+        // Private browsing or storage full; the poses only last until reload
+    }
+}
+
+export function serializeCustomPoses(poses: CustomPose[]): string {
+    return JSON.stringify({ version: POSES_FORMAT_VERSION, poses: compact(poses) });
+}
+
+export function importCustomPoses(text: string): CustomPose[] {
+    let data: { version?: unknown; poses?: unknown };
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Gesture file is not valid JSON: ${(err as Error).message}`);
+    }
+    if (!data || typeof data !== 'object' || !Array.isArray(data.poses)) {
+        throw new Error('Gesture file does not contain a list of poses');
+    }
+    if (data.version !== POSES_FORMAT_VERSION) {
+        throw new Error(`Unsupported gesture file version: ${data.version ?? 'missing'}`);
+    }
+    return parseCustomPoses(data.poses);
+}
+
+export function downloadCustomPoses(poses: CustomPose[]) {
+    const blob = new Blob([serializeCustomPoses(poses)], { type: 'application/json' });
+    downloadBlob(blob, 'custom-gestures.json');
+}
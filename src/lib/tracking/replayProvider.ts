@@ -0,0 +1,148 @@
+import type { FrameListener, HandFrame, HandTrackingProvider } from './types';
+
+export type ReplayMode = 'realtime' | 'step';
+
+export interface ReplayProviderOptions {
+    // Resolves the recorded frames; called once from initialize()
+    load: () => Promise<HandFrame[]>;
+    loop?: boolean;
+    // 'step' emits the first frame and then waits for step() calls
+    mode?: ReplayMode;
+}
+
+export interface ReplayProvider extends HandTrackingProvider {
+    readonly paused: boolean;
+    readonly position: { index: number; total: number };
+    pause(): void;
+    resume(): void;
+    step(): void;
+    // Notified whenever paused or position changes, for UI
+    subscribe(listener: () => void): () => void;
+}
+
+export function createReplayProvider({ load, loop = true, mode = 'realtime' }: ReplayProviderOptions): ReplayProvider {
+    let frames: HandFrame[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let onFrame: FrameListener | null = null;
+    let index = 0;
+    let paused = mode === 'step';
+    // performance.now() at which frames[0] would have been emitted
+    let timelineStart = 0;
+    const listeners = new Set<() => void>();
+
+    const notify = () => listeners.forEach(listener => listener());
+
+    const clearTimer = () => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+    };
+
+    const offsetOf = (i: number) => frames[i].timestamp - frames[0].timestamp;
+
+    const emit = () => {
+        const frame = frames[index];
+        onFrame?.({ ...frame, timestamp: performance.now() });
+        index++;
+
+        if (index >= frames.length) {
+            if (!loop) {
+                paused = true;
+                index = frames.length - 1;
+                notify();
+                return false;
+            }
+            index = 0;
+            timelineStart = performance.now();
+        }
+
+        notify();
+        return true;
+    };
+
+    // Replays each frame at its original offset from the first one
+    const schedule = () => {
+        clearTimer();
+        if (paused || !onFrame) return;
+
+        const due = timelineStart + offsetOf(index);
+        timer = setTimeout(() => {
+            timer = null;
+            if (emit()) schedule();
+        }, Math.max(0, due - performance.now()));
+    };
+
+    const stop = () => {
+        clearTimer();
+        onFrame = null;
+    };
+
+    return {
+        name: 'replay',
+        requiresVideo: false,
+        throttled: false,
+
+        get paused() {
+            return paused;
+        },
+
+        get position() {
+            return { index, total: frames.length };
+        },
+
+        async initialize() {
+            frames = await load();
+            index = 0;
+        },
+
+        start(_video, listener) {
+            clearTimer();
+            if (frames.length === 0) return;
+
+            onFrame = listener;
+            timelineStart = performance.now() - offsetOf(index);
+
+            if (paused) {
+                // Show where the replay stands so the step mode starts on a real frame
+                emit();
+            } else {
+                schedule();
+            }
+        },
+
+        stop,
+
+        pause() {
+            if (paused) return;
+            paused = true;
+            clearTimer();
+            notify();
+        },
+
+        resume() {
+            if (!paused || frames.length === 0) return;
+            paused = false;
+            timelineStart = performance.now() - offsetOf(index);
+            notify();
+            schedule();
+        },
+
+        step() {
+            if (!paused || !onFrame || frames.length === 0) return;
+            emit();
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        dispose() {
+            stop();
+            frames = [];
+        },
+    };
+}
@@ -0,0 +1,57 @@
+import { createMediaPipeProvider } from './mediapipeProvider';
+import { createMediaPipeWorkerProvider, supportsWorkerTracking } from './mediapipeWorkerProvider';
+import { createPointerProvider } from './pointerProvider';
+import { createReplayProvider } from './replayProvider';
+import { parseSession, sessionToFrames } from './session';
+import { createSyntheticProvider } from './syntheticProvider';
+import type { HandTrackingProvider } from './types';
+
+export type TrackingProviderKind = 'mediapipe' | 'mediapipe-main' | 'replay' | 'synthetic' | 'pointer';
+
+// MediaPipe in a worker where the browser can run it there, else on the main thread
+function createDefaultProvider(): HandTrackingProvider {
+    return supportsWorkerTracking() ? createMediaPipeWorkerProvider() : createMediaPipeProvider();
+}
+
+/**
+ * Picks the tracking backend from the page URL, falling back to
+ * NEXT_PUBLIC_TRACKING_PROVIDER and then MediaPipe.
+ *
+ *   ?tracking=mediapipe-main                  MediaPipe on the main thread instead of a worker
+ *   ?tracking=synthetic                       scripted demo hands, no camera
+ *   ?tracking=pointer                         mouse, touch and keyboard instead of hands
+ *   ?tracking=replay&session=/sessions/a.json replay a recorded session
+ *   ?tracking=replay&session=...&step         replay frame by frame
+ */
+export function resolveTrackingProvider(search: string): HandTrackingProvider {
+    const params = new URLSearchParams(search);
+    const kind = (params.get('tracking') ?? process.env.NEXT_PUBLIC_TRACKING_PROVIDER ?? 'mediapipe') as TrackingProviderKind;
+
+    switch (kind) {
+        case 'mediapipe-main':
+            return createMediaPipeProvider();
+        case 'synthetic':
+            return createSyntheticProvider();
+        case 'pointer':
+            return createPointerProvider();
+        case 'replay': {
+            const session = params.get('session');
+            if (!session) {
+                console.warn('Replay tracking needs a ?session= URL, falling back to MediaPipe');
+                return createDefaultProvider();
+            }
+            return createReplayProvider({
+                mode: params.has('step') ? 'step' : 'realtime',
+                load: async () => {
+                    const response = await fetch(session);
+                    if (!response.ok) {
+                        throw new Error(`Failed to load session ${session}: ${response.status}`);
+                    }
+                    return sessionToFrames(parseSession(await response.text()));
+                },
+            });
+        }
+        default:
+            return createDefaultProvider();
+    }
+}
@@ -0,0 +1,116 @@
+import { downloadBlob } from '@/lib/download';
+import type { HandData, HandFrame, TrackedHand } from './types';
+
+export const SESSION_FORMAT_VERSION = 1;
+
+// Score is already stored with the raw hand; ids are assigned again on replay
+export type SessionHandFlags = Omit<HandData, 'id' | 'landmarks' | 'handedness' | 'physicalHand' | 'aspect' | 'score'>;
+
+export interface SessionEntry {
+    // Milliseconds since the recording started
+    t: number;
+    hands: TrackedHand[];
+    // Camera width / height, when the provider reported it
+    aspect?: number;
+    derived: {
+        left: SessionHandFlags | null;
+        right: SessionHandFlags | null;
+    };
+}
+
+export interface RecordedSession {
+    version: typeof SESSION_FORMAT_VERSION;
+    createdAt: string;
+    provider: string;
+    entries: SessionEntry[];
+}
+
+type SessionHeader = Omit<RecordedSession, 'entries'>;
+
+function toFlags(hand: HandData | null): SessionHandFlags | null {
+    if (!hand) return null;
+    const {
+        id: _id,
+        landmarks: _landmarks,
+        handedness: _handedness,
+        physicalHand: _physicalHand,
+        aspect: _aspect,
+        score: _score,
+        ...flags
+    } = hand;
+    return flags;
+}
+
+export function createSessionEntry(
+    frame: HandFrame,
+    startedAt: number,
+    leftHand: HandData | null,
+    rightHand: HandData | null
+): SessionEntry {
+    return {
+        t: Math.round((frame.timestamp - startedAt) * 100) / 100,
+        hands: frame.hands,
+        aspect: frame.aspect,
+        derived: { left: toFlags(leftHand), right: toFlags(rightHand) },
+    };
+}
+
+export function serializeSession(session: RecordedSession, format: 'json' | 'ndjson' = 'json'): string {
+    if (format === 'json') {
+        return JSON.stringify(session);
+    }
+
+    // NDJSON: a header line followed by one entry per line
+    const { entries, ...header } = session;
+    return [JSON.stringify(header), ...entries.map(entry => JSON.stringify(entry))].join('\n') + '\n';
+}
+
+function parseLines(text: string): RecordedSession {
+    const [headerLine, ...lines] = text.split('\n').filter(line => line.trim());
+    const header: SessionHeader = JSON.parse(headerLine);
+    return { ...header, entries: lines.map(line => JSON.parse(line)) };
+}
+
+/**
+ * Parses a session saved as a single JSON document or as NDJSON.
+ */
+export function parseSession(text: string): RecordedSession {
+    const trimmed = text.trim();
+    let session: RecordedSession;
+
+    try {
+        session = JSON.parse(trimmed);
+    } catch {
+        try {
+            session = parseLines(trimmed);
+        } catch (err) {
+            throw new Error(`Session is not valid JSON or NDJSON: ${(err as Error).message}`);
+        }
+    }
+
+    if (session.version !== SESSION_FORMAT_VERSION) {
+        throw new Error(`Unsupported session version: ${session.version ?? 'missing'}`);
+    }
+    // A single-line NDJSON file is just the header
+    const entries = session.entries ?? [];
+
+    entries.forEach((entry, index) => {
+        if (typeof entry.t !== 'number' || !Array.isArray(entry.hands)) {
+            throw new Error(`Malformed session entry at index ${index}`);
+        }
+    });
+
+    return { ...session, entries };
+}
+
+export function sessionToFrames(session: RecordedSession): HandFrame[] {
+    return session.entries.map(entry => ({ timestamp: entry.t, hands: entry.hands, aspect: entry.aspect }));
+}
+
+export function downloadSession(session: RecordedSession, format: 'json' | 'ndjson' = 'json') {
+    const blob = new Blob([serializeSession(session, format)], {
+        type: format === 'json' ? 'application/json' : 'application/x-ndjson',
+    });
+    const stamp = session.createdAt.replace(/[:.]/g, '-');
+    downloadBlob(blob, `hand-session-${stamp}.${format}`);
+}
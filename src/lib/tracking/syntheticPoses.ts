@@ -0,0 +1,78 @@
+import type { Handedness, Landmark } from './types';
+
+export type SyntheticPose = 'idle' | 'pinch' | 'openPalm' | 'thumbsUp' | 'thumbsDown';
+
+type Offsets = [number, number][];
+
+// Landmark offsets (x, y) for an upright hand, in normalized camera units.
+// Index order follows MediaPipe: wrist, thumb (1-4), index (5-8), middle (9-12),
+// ring (13-16), pinky (17-20).
+const EXTENDED_FINGERS: Offsets = [
+    [-0.03, 0.05], [-0.035, 0.0], [-0.04, -0.04], [-0.045, -0.08],
+    [0, 0.04], [0, -0.02], [0, -0.06], [0, -0.1],
+    [0.03, 0.05], [0.035, 0.0], [0.04, -0.035], [0.045, -0.07],
+    [0.055, 0.07], [0.065, 0.03], [0.07, 0.0], [0.075, -0.03],
+];
+
+const CURLED_FINGERS: Offsets = [
+    [-0.03, 0.05], [-0.035, 0.02], [-0.025, 0.06], [-0.02, 0.08],
+    [0, 0.04], [0, 0.01], [0.005, 0.05], [0.005, 0.07],
+    [0.03, 0.05], [0.03, 0.025], [0.03, 0.06], [0.03, 0.075],
+    [0.055, 0.07], [0.055, 0.05], [0.05, 0.075], [0.05, 0.09],
+];
+
+const WRIST: [number, number] = [0, 0.2];
+
+const POSES: Record<SyntheticPose, Offsets> = {
+    idle: [
+        WRIST,
+        [-0.04, 0.17], [-0.06, 0.15], [-0.05, 0.14], [-0.045, 0.13],
+        ...EXTENDED_FINGERS.slice(0, 4),
+        ...CURLED_FINGERS.slice(4),
+    ],
+    pinch: [
+        WRIST,
+        [-0.04, 0.17], [-0.08, 0.12], [-0.09, 0.02], [-0.06, -0.02],
+        [-0.03, 0.05], [-0.035, 0.0], [-0.05, -0.02], [-0.055, -0.015],
+        ...EXTENDED_FINGERS.slice(4),
+    ],
+    openPalm: [
+        WRIST,
+        [-0.04, 0.17], [-0.08, 0.12], [-0.11, 0.08], [-0.14, 0.05],
+        ...EXTENDED_FINGERS,
+    ],
+    thumbsUp: [
+        WRIST,
+        [-0.04, 0.17], [-0.06, 0.1], [-0.065, 0.04], [-0.07, -0.02],
+        ...CURLED_FINGERS,
+    ],
+    thumbsDown: [
+        WRIST,
+        [-0.04, 0.17], [-0.06, 0.2], [-0.065, 0.25], [-0.07, 0.3],
+        ...CURLED_FINGERS,
+    ],
+};
+
+/**
+ * Builds 21 landmarks for a pose so that the pinch point (midpoint of thumb and
+ * index tips) lands on `position`, which is given in camera coordinates.
+ */
+export function createPoseLandmarks(
+    pose: SyntheticPose,
+    position: { x: number; y: number },
+    handedness: Handedness,
+    scale = 1
+): Landmark[] {
+    const offsets = POSES[pose];
+    // Left hands are the horizontal mirror of right hands
+    const dir = handedness === 'Left' ? -1 : 1;
+
+    const anchorX = (offsets[4][0] + offsets[8][0]) / 2;
+    const anchorY = (offsets[4][1] + offsets[8][1]) / 2;
+
+    return offsets.map(([x, y]) => ({
+        x: position.x + (x - anchorX) * scale * dir,
+        y: position.y + (y - anchorY) * scale,
+        z: 0,
+    }));
+}
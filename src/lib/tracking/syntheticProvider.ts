@@ -0,0 +1,148 @@
+import { createPoseLandmarks, type SyntheticPose } from './syntheticPoses';
+import type { FrameListener, Handedness, HandFrame, HandTrackingProvider } from './types';
+
+export interface SyntheticHandKeyframe {
+    handedness: Handedness;
+    pose: SyntheticPose;
+    // Screen-space position (0-1, as seen in the mirrored view)
+    position: { x: number; y: number };
+}
+
+export interface SyntheticStep {
+    // How long it takes to move from the previous step into this one (ms)
+    duration: number;
+    hands: SyntheticHandKeyframe[];
+}
+
+export interface SyntheticProviderOptions {
+    script?: SyntheticStep[];
+    loop?: boolean;
+    fps?: number;
+}
+
+// Walks through the main interactions: drag a thumbnail onto the stage, zoom it
+// with the left hand, step to the next image and clear with two open palms.
+export const DEMO_SCRIPT: SyntheticStep[] = [
+    { duration: 0, hands: [] },
+    { duration: 600, hands: [{ handedness: 'Right', pose: 'idle', position: { x: 0.87, y: 0.2 } }] },
+    { duration: 300, hands: [{ handedness: 'Right', pose: 'pinch', position: { x: 0.87, y: 0.2 } }] },
+    { duration: 1200, hands: [{ handedness: 'Right', pose: 'pinch', position: { x: 0.4, y: 0.5 } }] },
+    { duration: 300, hands: [{ handedness: 'Right', pose: 'idle', position: { x: 0.4, y: 0.5 } }] },
+    { duration: 800, hands: [{ handedness: 'Left', pose: 'idle', position: { x: 0.2, y: 0.6 } }] },
+    { duration: 300, hands: [{ handedness: 'Left', pose: 'pinch', position: { x: 0.2, y: 0.6 } }] },
+    { duration: 1000, hands: [{ handedness: 'Left', pose: 'pinch', position: { x: 0.2, y: 0.4 } }] },
+    { duration: 300, hands: [{ handedness: 'Left', pose: 'idle', position: { x: 0.2, y: 0.4 } }] },
+    { duration: 600, hands: [{ handedness: 'Right', pose: 'idle', position: { x: 0.6, y: 0.5 } }] },
+    { duration: 300, hands: [{ handedness: 'Right', pose: 'thumbsUp', position: { x: 0.6, y: 0.5 } }] },
+    { duration: 700, hands: [{ handedness: 'Right', pose: 'thumbsUp', position: { x: 0.6, y: 0.5 } }] },
+    { duration: 600, hands: [{ handedness: 'Right', pose: 'idle', position: { x: 0.6, y: 0.5 } }] },
+    {
+        duration: 600, hands: [
+            { handedness: 'Left', pose: 'openPalm', position: { x: 0.25, y: 0.5 } },
+            { handedness: 'Right', pose: 'openPalm', position: { x: 0.55, y: 0.5 } },
+        ],
+    },
+    {
+        duration: 800, hands: [
+            { handedness: 'Left', pose: 'openPalm', position: { x: 0.25, y: 0.5 } },
+            { handedness: 'Right', pose: 'openPalm', position: { x: 0.55, y: 0.5 } },
+        ],
+    },
+    { duration: 1000, hands: [] },
+];
+
+function lerp(a: number, b: number, t: number) {
+    return a + (b - a) * t;
+}
+
+/**
+ * Returns the hands at `time` ms into the script. A hand keeps its pose from the
+ * step it is heading into and its position is interpolated from where it was.
+ */
+export function sampleScript(script: SyntheticStep[], time: number): HandFrame['hands'] {
+    let elapsed = 0;
+
+    for (let i = 0; i < script.length; i++) {
+        const step = script[i];
+        const end = elapsed + step.duration;
+
+        if (time <= end || i === script.length - 1) {
+            const t = step.duration > 0 ? Math.min(1, Math.max(0, (time - elapsed) / step.duration)) : 1;
+            const previous = i > 0 ? script[i - 1].hands : [];
+
+            return step.hands.map(hand => {
+                const from = previous.find(h => h.handedness === hand.handedness)?.position ?? hand.position;
+                const x = lerp(from.x, hand.position.x, t);
+                const y = lerp(from.y, hand.position.y, t);
+
+                return {
+                    // Scripts are authored in screen space; providers emit camera space
+                    landmarks: createPoseLandmarks(hand.pose, { x: 1 - x, y }, hand.handedness),
+                    handedness: hand.handedness,
+                    score: 1,
+                };
+            });
+        }
+
+        elapsed = end;
+    }
+
+    return [];
+}
+
+export function scriptDuration(script: SyntheticStep[]) {
+    return script.reduce((total, step) => total + step.duration, 0);
+}
+
+export function createSyntheticProvider({
+    script = DEMO_SCRIPT,
+    loop = true,
+    fps = 30,
+}: SyntheticProviderOptions = {}): HandTrackingProvider {
+    const duration = scriptDuration(script);
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const stop = () => {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    };
+
+    return {
+        name: 'synthetic',
+        requiresVideo: false,
+        assignsRoles: true,
+
+        async initialize() {
+            // Nothing to load
+        },
+
+        start(_video, onFrame: FrameListener) {
+            stop();
+            const startedAt = performance.now();
+
+            timer = setInterval(() => {
+                const now = performance.now();
+                let time = now - startedAt;
+
+                if (time > duration) {
+                    if (!loop) {
+                        onFrame({ timestamp: now, hands: [] });
+                        stop();
+                        return;
+                    }
+                    time = duration > 0 ? time % duration : 0;
+                }
+
+                onFrame({ timestamp: now, hands: sampleScript(script, time) });
+            }, 1000 / fps);
+        },
+
+        stop,
+
+        dispose() {
+            stop();
+        },
+    };
+}
@@ -0,0 +1,82 @@
+export interface Landmark {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export type Handedness = 'Left' | 'Right';
+
+// A single hand as reported by a provider. Landmarks are normalized camera
+// coordinates (not mirrored) and handedness is already the user's actual hand.
+export interface TrackedHand {
+    landmarks: Landmark[];
+    handedness: Handedness;
+    score: number;
+    // Stays the same while the hand is in view; set by the hand identity tracker
+    id?: number;
+    // The actual hand, kept by the identity tracker when it replaces handedness with a role
+    physicalHand?: Handedness;
+}
+
+export interface HandFrame {
+    timestamp: number;
+    hands: TrackedHand[];
+    // How long the model took on this frame (ms), for providers that run one
+    inferenceMs?: number;
+    // Width / height of the image the landmarks are normalized to; missing means square
+    aspect?: number;
+}
+
+// What a provider is asked to do per frame; set by the performance governor
+export interface TrackingPerformance {
+    // Upper bound on frames sent to the model per second
+    maxFps: number;
+    // Width frames are scaled down to before inference (height follows the aspect); null keeps the camera size
+    inputWidth: number | null;
+    // MediaPipe Hands model: 0 = lite, 1 = full
+    modelComplexity: 0 | 1;
+}
+
+export type FrameListener = (frame: HandFrame) => void;
+// Failures after initialize(), such as a crashed worker; tracking has stopped when it is called
+export type ProviderErrorListener = (error: Error) => void;
+
+export interface HandTrackingProvider {
+    readonly name: string;
+    // Whether start() needs a playing <video> element to read frames from
+    readonly requiresVideo: boolean;
+    // Set to false when every emitted frame must reach the gesture logic (replay)
+    readonly throttled?: boolean;
+    // Set when handedness already is the role (pointer, scripted hands), so no identity tracking is applied
+    readonly assignsRoles?: boolean;
+    initialize(): Promise<void>;
+    // Only providers that run a model have this; the others ignore performance tiers
+    configure?(performance: TrackingPerformance): void;
+    start(video: HTMLVideoElement | null, onFrame: FrameListener, onError?: ProviderErrorListener): void;
+    stop(): void;
+    dispose(): void;
+}
+
+export interface HandData {
+    // Stable across frames while the hand stays in view
+    id?: number;
+    landmarks: Landmark[];
+    // The role (which controls the hand drives), not necessarily the physical hand
+    handedness: Handedness;
+    // The hand it actually is; differs from handedness for left-handed or dominant-hand roles
+    physicalHand: Handedness;
+    // Camera width / height: one unit of landmark x is this many units of y
+    aspect: number;
+    // Tracker confidence in the handedness label (0-1)
+    score: number;
+    isPinching: boolean;
+    pinchPosition: { x: number; y: number };
+    // Pinch position before smoothing; equals pinchPosition when smoothing is off
+    rawPinchPosition: { x: number; y: number };
+    pinchStrength: number;
+    // Thumb-to-index tip distance in normalized units
+    pinchDistance: number;
+    isThumbsUp: boolean;
+    isThumbsDown: boolean;
+    isOpenPalm: boolean;
+}
@@ -0,0 +1,96 @@
+import type { Point } from './screen';
+
+// Translation in pixels from the stage center, scale factor and rotation in
+// degrees, applied around the element's own center (framer-motion's default).
+export interface ViewTransform {
+    x: number;
+    y: number;
+    scale: number;
+    rotation: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export const IDENTITY_VIEW: ViewTransform = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 4;
+// Rotations this close to upright snap back to 0°
+const ROTATION_SNAP_DEGREES = 5;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function rotate(point: Point, degrees: number): Point {
+    const cos = Math.cos(toRadians(degrees));
+    const sin = Math.sin(toRadians(degrees));
+    return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+}
+
+export function clampZoom(scale: number) {
+    return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+}
+
+// Where a screen point lands on the untransformed content, relative to its center
+function toContentPoint(view: ViewTransform, screen: Point, center: Point): Point {
+    const local = rotate({ x: screen.x - center.x - view.x, y: screen.y - center.y - view.y }, -view.rotation);
+    return { x: local.x / view.scale, y: local.y / view.scale };
+}
+
+// Translation that puts a content point under a screen point for a given scale and rotation
+function placeContentPoint(content: Point, screen: Point, center: Point, scale: number, rotation: number) {
+    const offset = rotate({ x: content.x * scale, y: content.y * scale }, rotation);
+    return { x: screen.x - center.x - offset.x, y: screen.y - center.y - offset.y };
+}
+
+/** Zooms to `scale` while keeping whatever is under `anchor` in place. */
+export function zoomAround(view: ViewTransform, anchor: Point, center: Point, scale: number): ViewTransform {
+    const nextScale = clampZoom(scale);
+    const content = toContentPoint(view, anchor, center);
+    return { ...view, ...placeContentPoint(content, anchor, center, nextScale, view.rotation), scale: nextScale };
+}
+
+/**
+ * Two-point manipulation: the distance between the points scales the view, the
+ * angle between them rotates it, and the point under their midpoint follows it.
+ * `start` is the view when both points were first down at `from`.
+ */
+export function manipulate(start: ViewTransform, from: [Point, Point], to: [Point, Point], center: Point): ViewTransform {
+    const measure = ([a, b]: [Point, Point]) => ({
+        mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        distance: Math.hypot(b.x - a.x, b.y - a.y),
+        angle: (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI,
+    });
+    const before = measure(from);
+    const after = measure(to);
+
+    const scale = clampZoom(before.distance > 0 ? start.scale * (after.distance / before.distance) : start.scale);
+    let rotation = start.rotation + after.angle - before.angle;
+    rotation = ((rotation + 540) % 360) - 180;
+    if (Math.abs(rotation) < ROTATION_SNAP_DEGREES) rotation = 0;
+
+    const content = toContentPoint(start, before.mid, center);
+    return { ...placeContentPoint(content, after.mid, center, scale, rotation), scale, rotation };
+}
+
+/**
+ * Keeps the transformed content on the stage: content larger than the stage may
+ * pan until its edges meet the stage edges, smaller content stays fully inside.
+ */
+export function clampPan(view: ViewTransform, content: Size, stage: Size): ViewTransform {
+    const cos = Math.abs(Math.cos(toRadians(view.rotation)));
+    const sin = Math.abs(Math.sin(toRadians(view.rotation)));
+    // Bounding box of the scaled, rotated content
+    const width = (content.width * cos + content.height * sin) * view.scale;
+    const height = (content.width * sin + content.height * cos) * view.scale;
+
+    const maxX = Math.abs(width - stage.width) / 2;
+    const maxY = Math.abs(height - stage.height) / 2;
+    return {
+        ...view,
+        x: Math.max(-maxX, Math.min(maxX, view.x)),
+        y: Math.max(-maxY, Math.min(maxY, view.y)),
+    };
+}